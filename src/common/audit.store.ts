@@ -0,0 +1,26 @@
+import { EntityManager } from '@mikro-orm/core';
+import { AuditEntryEntity } from './entities/audit-entry.entity';
+import { AuditEntry, AuditStore } from './interfaces/audit.interface';
+
+/**
+ * Stores the audit entries in the `audit_entries` collection through MikroORM
+ */
+export class MikroOrmAuditStore implements AuditStore {
+
+  constructor(protected readonly em: EntityManager) {}
+
+  async record(entries: AuditEntry[]) {
+    if (entries.length === 0) return;
+
+    // Use a fork so the entries never end up in the unit of work of the audited operation
+    const em = this.em.fork();
+    for (const entry of entries) {
+      em.persist(em.create(AuditEntryEntity, entry));
+    }
+    await em.flush();
+  }
+
+  async findHistory(entityName: string, entityId: string): Promise<AuditEntry[]> {
+    return this.em.fork().find(AuditEntryEntity, { entityName, entityId }, { orderBy: { createdAt: 'DESC' } });
+  }
+}
@@ -1,8 +1,10 @@
-import { EntityRepository, FilterQuery, FindOptions, RequiredEntityData, AnyEntity, ReferenceKind } from '@mikro-orm/core';
+import { EntityRepository, RequiredEntityData, AnyEntity, ReferenceKind } from '@mikro-orm/core';
 import { EventEmitter2 } from '@nestjs/event-emitter';
 import { NotFoundException } from '@nestjs/common';
 import { EntityNameUtil } from './utils/entity-name.util';
 import { BaseService } from './base.service';
+import { BaseServiceOptions } from './interfaces/base-service-options.interface';
+import { CrudHookContext } from './interfaces/crud-hooks.interface';
 
 export abstract class BaseRelatedService<T extends AnyEntity, R extends AnyEntity> extends BaseService<T> {
 
@@ -12,32 +14,14 @@ export abstract class BaseRelatedService<T extends AnyEntity, R extends AnyEntit
     protected readonly repository: EntityRepository<T>,
     protected readonly relatedRepository: EntityRepository<R>,
     protected readonly eventEmitter?: EventEmitter2,
+    protected readonly serviceOptions: BaseServiceOptions = {},
   ) {
-    super(repository, eventEmitter);
+    super(repository, eventEmitter, serviceOptions);
   }
 
-  async findAll(where: FilterQuery<T>, options?: FindOptions<T>) {
-    return this.repository.find(where, options);
-  }
-
-  async query(where: FilterQuery<T>, options: FindOptions<T>) {
-    return this.repository.findAndCount(where, options);
-  }
-
-  async findOne(where: FilterQuery<T>) {
-    return this.repository.findOne(where);
-  }
-
-  async create(data: RequiredEntityData<T>) {
+  protected async beforeCreate(data: RequiredEntityData<T>, ctx?: CrudHookContext): Promise<void | boolean> {
     await this.validateRelatedEntity(data);
-    return super.create(data);
-  }
-
-  async createMany(data: RequiredEntityData<T>[]) {
-    for (const item of data) {
-      await this.validateRelatedEntity(item);
-    }
-    return super.createMany(data);
+    return super.beforeCreate(data, ctx);
   }
 
   private async validateRelatedEntity(data: RequiredEntityData<T>) {
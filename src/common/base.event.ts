@@ -1,11 +1,77 @@
-export class CRUDEventUpdate<T> {
-    constructor(public readonly entity: T) {}
+import { CrudOperation } from './interfaces/crud-hooks.interface';
+
+export interface CRUDEventChange {
+    field: string;
+    before?: any;
+    after?: any;
+}
+
+export interface CRUDEventContext {
+    /**
+     * Snapshot of the persisted state before the change
+     */
+    previous?: Record<string, any>;
+    /**
+     * The modified properties, every set property for created and deleted records
+     */
+    changes?: CRUDEventChange[];
+    actor?: string;
+    /**
+     * Shared by the events of one request, taken from the `X-Correlation-ID` or `X-Request-ID` header when present
+     */
+    correlationId?: string;
+    /**
+     * The CRUD operation that caused the change, undefined for direct service calls
+     */
+    source?: CrudOperation;
 }
 
-export class CRUDEventCreate<T> {
-    constructor(public readonly entity: T) {}
+export abstract class CRUDEvent<T> implements CRUDEventContext {
+    readonly previous?: Record<string, any>;
+    readonly changes: CRUDEventChange[];
+    readonly actor?: string;
+    readonly correlationId?: string;
+    readonly source?: CrudOperation;
+
+    constructor(public readonly entity: T, context: CRUDEventContext = {}) {
+        this.previous = context.previous;
+        this.changes = context.changes ?? [];
+        this.actor = context.actor;
+        this.correlationId = context.correlationId;
+        this.source = context.source;
+    }
+
+    hasChanged(field: keyof T & string): boolean {
+        return this.changes.some(change => change.field === field);
+    }
+
+    getChange(field: keyof T & string): CRUDEventChange | undefined {
+        return this.changes.find(change => change.field === field);
+    }
 }
 
-export class CRUDEventDelete<T> {
-    constructor(public readonly entity: T) {}
+export class CRUDEventUpdate<T> extends CRUDEvent<T> {}
+
+export class CRUDEventCreate<T> extends CRUDEvent<T> {}
+
+export class CRUDEventDelete<T> extends CRUDEvent<T> {}
+
+export class CRUDEventRestore<T> extends CRUDEvent<T> {}
+
+export type CRUDEventType = 'created' | 'updated' | 'deleted' | 'restored';
+
+/**
+ * Create the event emitted as `<slug>.<type>`
+ */
+export function createCrudEvent<T>(type: CRUDEventType, entity: T, context: CRUDEventContext = {}) {
+    switch (type) {
+        case 'created':
+            return new CRUDEventCreate(entity, context);
+        case 'updated':
+            return new CRUDEventUpdate(entity, context);
+        case 'deleted':
+            return new CRUDEventDelete(entity, context);
+        case 'restored':
+            return new CRUDEventRestore(entity, context);
+    }
 }
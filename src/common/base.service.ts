@@ -1,7 +1,26 @@
-import { EntityRepository, FilterQuery, FindOptions, RequiredEntityData, EntityData, AnyEntity } from '@mikro-orm/core';
+import { EntityRepository, EntityManager, FilterQuery, FindOneOptions, FindOptions, RequiredEntityData, EntityData, AnyEntity, OptimisticLockError, wrap, Collection, EntityProperty, ReferenceKind } from '@mikro-orm/core';
+import { BadRequestException, NotFoundException, PreconditionFailedException } from '@nestjs/common';
 import { EventEmitter2 } from '@nestjs/event-emitter';
+import { randomUUID } from 'crypto';
 import { EntityNameUtil } from './utils/entity-name.util';
-import { CRUDEventCreate, CRUDEventDelete, CRUDEventUpdate } from './base.event';
+import { SoftDeleteUtil } from './utils/soft-delete.util';
+import { TenantUtil } from './utils/tenant.util';
+import { AuditUtil } from './utils/audit.util';
+import { AuditAction, AuditEntry } from './interfaces/audit.interface';
+import { CRUDEventChange, CRUDEventContext, CRUDEventType, createCrudEvent } from './base.event';
+import { OutboxMessageEntity } from './entities/outbox-message.entity';
+import { BaseServiceOptions, SoftDeleteOptions, ServiceFindOneOptions, ServiceFindOptions, ServiceUpdateOptions } from './interfaces/base-service-options.interface';
+import { CrudHookContext, CrudHookResult } from './interfaces/crud-hooks.interface';
+import { HookUtil } from './utils/hook.util';
+import { EtagUtil } from './utils/etag.util';
+import { ImportUtil } from './utils/import.util';
+import { QueryFilterUtil } from './utils/query-filter.util';
+import { ImportFailure, ImportReport, ImportRowHooks, ServiceImportOptions, UpsertReport, UpsertRowResult } from './interfaces/import-report.interface';
+
+/**
+ * `changes` are given for changes the snapshots do not cover, e.g. the inverse side of a relation
+ */
+type PendingEvent<T> = { type: CRUDEventType, entity: T, before?: EntityData<T>, changes?: CRUDEventChange[] };
 
 export abstract class BaseService<T extends AnyEntity> {
 
@@ -10,54 +29,628 @@ export abstract class BaseService<T extends AnyEntity> {
   protected constructor(
     protected readonly repository: EntityRepository<T>,
     protected readonly eventEmitter?: EventEmitter2,
+    protected readonly serviceOptions: BaseServiceOptions = {},
   ) {
     this.slug = EntityNameUtil.classToSlug(this.repository.getEntityName());
   }
 
-  async findAll(where: FilterQuery<T>, options?: FindOptions<T>) {
-    return this.repository.find(where, options);
+  /**
+   * The soft delete configuration of the service, `@Crud` checks it matches its own `softDelete` option
+   */
+  get softDelete(): SoftDeleteOptions | undefined {
+    return this.serviceOptions.softDelete;
+  }
+
+  async findAll(where: FilterQuery<T>, options?: ServiceFindOptions<T>) {
+    const { withDeleted, ...findOptions } = options ?? {};
+    return this.repository.find(await this.prepareWhere(where, withDeleted), findOptions as FindOptions<T>);
   }
 
-  async query(where: FilterQuery<T>, options: FindOptions<T>) {
-    return this.repository.findAndCount(where, options);
+  async query(where: FilterQuery<T>, options: ServiceFindOptions<T>) {
+    const { withDeleted, ...findOptions } = options ?? {};
+    return this.repository.findAndCount(await this.prepareWhere(where, withDeleted), findOptions as FindOptions<T>);
   }
 
-  async count(where: FilterQuery<T>, options?: FindOptions<T>) {
-    return this.repository.count(where, options);
+  async count(where: FilterQuery<T>, options?: ServiceFindOptions<T>) {
+    const { withDeleted, ...findOptions } = options ?? {};
+    return this.repository.count(await this.prepareWhere(where, withDeleted), findOptions as FindOptions<T>);
   }
 
-  async findOne(where: FilterQuery<T>) {
-    return this.repository.findOne(where);
+  async findOne(where: FilterQuery<T>, options?: ServiceFindOneOptions<T>) {
+    const { withDeleted, ...findOptions } = options ?? {};
+    return this.repository.findOne(await this.prepareWhere(where, withDeleted), findOptions as FindOneOptions<T>);
   }
 
-  async delete(where: FilterQuery<T>) {
+  /**
+   * Delete (or soft-delete) the matched record and return the number of deleted records.
+   * Nothing is run after a delete that did not affect any record, neither the after hook, the audit nor the events.
+   */
+  async delete(where: FilterQuery<T>, ctx?: CrudHookContext) {
+    const softDelete = this.serviceOptions.softDelete;
     const read = await this.findOne(where)!;
-    this.eventEmitter?.emit(`${this.slug}.deleted`, new CRUDEventDelete(read));
-    return this.repository.nativeDelete(where);
+
+    if (read) {
+      await HookUtil.runBefore(this.beforeDelete(read, ctx), ctx);
+    }
+    const before = read ? this.snapshot(read) : undefined;
+
+    const em = this.repository.getEntityManager();
+    const events: PendingEvent<T>[] = read ? [{ type: 'deleted', entity: read, before }] : [];
+
+    if (softDelete) {
+      if (!read) return 0;
+      let deleted = 0;
+      await this.flushWithEvents(em, events, ctx, async () => {
+        // Only a record that is still not deleted is updated, so a concurrent delete affects nothing
+        const primaryKey = em.getMetadata().find(this.repository.getEntityName())!.primaryKeys[0];
+        deleted = await this.repository.nativeUpdate(
+          { [primaryKey]: wrap(read, true).getPrimaryKey(), [softDelete.field]: null } as FilterQuery<T>,
+          { [softDelete.field]: new Date() } as EntityData<T>,
+        );
+        if (deleted > 0) {
+          await em.refresh(read);
+        } else {
+          events.length = 0;
+        }
+      });
+      if (deleted === 0) return 0;
+      await this.afterDelete(read, ctx);
+      await this.recordAudit('delete', events, ctx);
+      await this.emitEvents(events, ctx);
+      return deleted;
+    }
+
+    let deleted = 0;
+    await this.flushWithEvents(em, events, ctx, async () => {
+      deleted = await this.repository.nativeDelete(await this.resolveRelations(TenantUtil.scope(where, this.serviceOptions.tenant)));
+      // Only publish the event of a delete that actually happened
+      if (deleted === 0) events.length = 0;
+    });
+    if (!read || deleted === 0) return deleted;
+    await this.afterDelete(read, ctx);
+    await this.recordAudit('delete', events, ctx);
+    await this.emitEvents(events, ctx);
+    return deleted;
+  }
+
+  async restore(where: FilterQuery<T>, ctx?: CrudHookContext) {
+    const softDelete = this.serviceOptions.softDelete;
+    if (!softDelete) {
+      throw new Error(`Soft delete is not enabled for ${this.slug}`);
+    }
+
+    const result = await this.repository.findOne(await this.resolveRelations(TenantUtil.scope(SoftDeleteUtil.onlyDeleted(where, softDelete), this.serviceOptions.tenant)));
+    if (!result) return null;
+
+    const before = this.snapshot(result);
+    const events: PendingEvent<T>[] = [{ type: 'restored', entity: result, before }];
+    (result as any)[softDelete.field] = null;
+    await this.flushWithEvents(this.repository.getEntityManager(), events, ctx);
+    await this.recordAudit('restore', events, ctx);
+    await this.emitEvents(events, ctx);
+    return result;
   }
 
-  async create(data: RequiredEntityData<T>) {
+  async create(data: RequiredEntityData<T>, ctx?: CrudHookContext) {
+    TenantUtil.stamp(data, this.serviceOptions.tenant);
+    await HookUtil.runBefore(this.beforeCreate(data, ctx), ctx);
     const entity = this.repository.create(data);
-    await this.repository.getEntityManager().persist(entity).flush();
-    this.eventEmitter?.emit(`${this.slug}.created`, new CRUDEventCreate(entity));
+    const events: PendingEvent<T>[] = [{ type: 'created', entity }];
+    await this.flushWithEvents(this.repository.getEntityManager().persist(entity), events, ctx);
+    await this.afterCreate(entity, ctx);
+    await this.recordAudit('create', events, ctx);
+    await this.emitEvents(events, ctx);
     return entity;
   }
 
-  async createMany(data: RequiredEntityData<T>[]) {
+  async createMany(data: RequiredEntityData<T>[], ctx?: CrudHookContext) {
+    for (const item of data) {
+      TenantUtil.stamp(item, this.serviceOptions.tenant);
+      await HookUtil.runBefore(this.beforeCreate(item, ctx), ctx);
+    }
     const entities = data.map(d => this.repository.create(d));
-    await this.repository.getEntityManager().persist(entities).flush();
+    const events = entities.map((entity): PendingEvent<T> => ({ type: 'created', entity }));
+    await this.flushWithEvents(this.repository.getEntityManager().persist(entities), events, ctx);
     for (const entity of entities) {
-      this.eventEmitter?.emit(`${this.slug}.created`, new CRUDEventCreate(entity));
+      await this.afterCreate(entity, ctx);
     }
+    await this.recordAudit('create', events, ctx);
+    await this.emitEvents(events, ctx);
     return entities;
   }
 
-  async update(where: FilterQuery<T>, data: EntityData<T>) {
+  /**
+   * Create (or upsert when `upsertBy` is set) the given rows inside a transaction and report which rows failed.
+   * `created` and `updated` events are only emitted once the data has been committed.
+   */
+  async importMany(data: RequiredEntityData<T>[], options: ServiceImportOptions<T> = {}, ctx?: CrudHookContext): Promise<ImportReport<T>> {
+    const em = this.repository.getEntityManager();
+    const results: UpsertRowResult<T>[] = [];
+    const failed: ImportFailure[] = [];
+
+    const processRow = async (txEm: EntityManager, item: RequiredEntityData<T>) => {
+      const result = options.upsertBy?.length
+        ? await this.upsertRow(txEm, item, options.upsertBy, ctx, options.hooks)
+        : await this.insertRow(txEm, item, ctx, options.hooks);
+      await this.stageEvents(txEm, this.rowEvents([result]), ctx);
+      return result;
+    };
+
+    if (options.atomic !== false) {
+      try {
+        await em.transactional(async txEm => {
+          for (const [index, item] of data.entries()) {
+            try {
+              results.push(await processRow(txEm, item));
+            } catch (e) {
+              failed.push({ index, errors: ImportUtil.describeError(e) });
+              throw e;
+            }
+          }
+        });
+      } catch (e) {
+        if (failed.length === 0) throw e;
+        results.length = 0;
+      }
+    } else {
+      for (const [index, item] of data.entries()) {
+        try {
+          results.push(await em.transactional(txEm => processRow(txEm, item)));
+        } catch (e) {
+          failed.push({ index, errors: ImportUtil.describeError(e) });
+        }
+      }
+    }
+
+    const report = await this.commitRows(results, ctx);
+    if (!options.upsertBy?.length) {
+      return { created: report.inserted, failed };
+    }
+    return { created: report.inserted, updated: report.updated, unchanged: report.unchanged.length, failed };
+  }
+
+  async upsert(data: RequiredEntityData<T>, upsertBy: string[], ctx?: CrudHookContext) {
+    const report = await this.upsertMany([data], upsertBy, ctx);
+    return report.inserted[0] ?? report.updated[0] ?? report.unchanged[0];
+  }
+
+  /**
+   * Update the existing records matched on the `upsertBy` fields and insert the others, all in one transaction.
+   * Soft-deleted records are never matched, a new record is inserted instead of restoring them.
+   */
+  async upsertMany(data: RequiredEntityData<T>[], upsertBy: string[], ctx?: CrudHookContext): Promise<UpsertReport<T>> {
+    const results: UpsertRowResult<T>[] = [];
+    await this.repository.getEntityManager().transactional(async txEm => {
+      for (const item of data) {
+        const result = await this.upsertRow(txEm, item, upsertBy, ctx);
+        await this.stageEvents(txEm, this.rowEvents([result]), ctx);
+        results.push(result);
+      }
+    });
+    return this.commitRows(results, ctx);
+  }
+
+  private async insertRow(em: EntityManager, data: RequiredEntityData<T>, ctx?: CrudHookContext, hooks?: ImportRowHooks<T>): Promise<UpsertRowResult<T>> {
+    if (ctx && hooks?.beforeCreate) {
+      await HookUtil.runBefore(hooks.beforeCreate(data, ctx), ctx);
+    }
+    TenantUtil.stamp(data, this.serviceOptions.tenant);
+    await HookUtil.runBefore(this.beforeCreate(data, ctx), ctx);
+    const entity = em.create(this.repository.getEntityName(), data);
+    await em.persist(entity).flush();
+    return { status: 'inserted', entity };
+  }
+
+  private async upsertRow(em: EntityManager, data: RequiredEntityData<T>, upsertBy: string[], ctx?: CrudHookContext, hooks?: ImportRowHooks<T>): Promise<UpsertRowResult<T>> {
+    const where: Record<string, any> = {};
+    for (const key of upsertBy) {
+      if (data[key] === undefined || data[key] === null) {
+        throw new BadRequestException(`Missing value for ${key}`);
+      }
+      where[key] = data[key];
+    }
+
+    const entityName = this.repository.getEntityName();
+    // A soft-deleted record is not matched, so the row is inserted as a new record
+    const existing = await em.findOne(entityName, this.scope(where as FilterQuery<T>)) as T | null;
+    if (!existing) {
+      return this.insertRow(em, data, ctx, hooks);
+    }
+
+    if (ctx && hooks?.beforeUpdate) {
+      await HookUtil.runBefore(hooks.beforeUpdate(existing, data as EntityData<T>, ctx), ctx);
+    }
+    TenantUtil.stamp(data, this.serviceOptions.tenant);
+    await HookUtil.runBefore(this.beforeUpdate(existing, data as EntityData<T>, ctx), ctx);
+
+    const comparator = em.getComparator();
+    const before = comparator.prepareEntity(existing);
+    Object.assign(existing, data);
+    const changes = comparator.diffEntities(entityName, before, comparator.prepareEntity(existing));
+
+    if (Object.keys(changes).length === 0) {
+      return { status: 'unchanged', entity: existing };
+    }
+
+    await em.flush();
+    return { status: 'updated', entity: existing, before };
+  }
+
+  private rowEvents(results: UpsertRowResult<T>[]): PendingEvent<T>[] {
+    return results
+      .filter(result => result.status !== 'unchanged')
+      .map(result => ({ type: result.status === 'inserted' ? 'created' : 'updated', entity: result.entity, before: result.before }));
+  }
+
+  /**
+   * Run the after hooks and emit the events for rows that have been committed
+   */
+  private async commitRows(results: UpsertRowResult<T>[], ctx?: CrudHookContext): Promise<UpsertReport<T>> {
+    const report: UpsertReport<T> = { inserted: [], updated: [], unchanged: [] };
+
+    for (const { status, entity } of results) {
+      report[status].push(entity);
+      if (status === 'inserted') {
+        await this.afterCreate(entity, ctx);
+      } else if (status === 'updated') {
+        await this.afterUpdate(entity, ctx);
+      }
+    }
+    await this.recordAudit('create', results.filter(result => result.status === 'inserted'), ctx);
+    await this.recordAudit('update', results.filter(result => result.status === 'updated'), ctx);
+    await this.emitEvents(this.rowEvents(results), ctx);
+    return report;
+  }
+
+  /**
+   * Apply the changes to the matched record. With `expectedVersion` a 412 is thrown when the record
+   * has been modified since it was read, including concurrent writes detected by the version property on flush.
+   */
+  async update(where: FilterQuery<T>, data: EntityData<T>, options: ServiceUpdateOptions = {}, ctx?: CrudHookContext) {
     const result = await this.findOne(where)!;
+    if (result && options.expectedVersion !== undefined) {
+      EtagUtil.assertVersion(result, options.expectedVersion);
+    }
+    TenantUtil.stamp(data, this.serviceOptions.tenant);
+    await HookUtil.runBefore(this.beforeUpdate(result, data, ctx), ctx);
+    const before = this.snapshot(result);
+    const events: PendingEvent<T>[] = [{ type: 'updated', entity: result, before }];
     Object.assign(result, data);
-    await this.repository.getEntityManager().flush();
-    this.eventEmitter?.emit(`${this.slug}.updated`, new CRUDEventUpdate(result));
+    try {
+      await this.flushWithEvents(this.repository.getEntityManager(), events, ctx);
+    } catch (e) {
+      if (e instanceof OptimisticLockError) {
+        throw new PreconditionFailedException('The record has been modified since it was read');
+      }
+      throw e;
+    }
+    await this.afterUpdate(result, ctx);
+    await this.recordAudit('update', events, ctx);
+    await this.emitEvents(events, ctx);
     return result;
   }
 
+  /**
+   * Apply the same changes to every matched record in one transaction and return the updated records.
+   * `updated` events are only emitted once the changes have been committed.
+   */
+  async updateMany(where: FilterQuery<T>, data: EntityData<T>, ctx?: CrudHookContext): Promise<T[]> {
+    TenantUtil.stamp(data, this.serviceOptions.tenant);
+    const records = await this.repository.getEntityManager().transactional(async txEm => {
+      const entities = await txEm.find(this.repository.getEntityName(), await this.prepareWhere(where)) as T[];
+      const records: PendingEvent<T>[] = [];
+      for (const entity of entities) {
+        await HookUtil.runBefore(this.beforeUpdate(entity, data, ctx), ctx);
+        records.push({ type: 'updated', entity, before: this.snapshot(entity) });
+        Object.assign(entity, data);
+      }
+      await txEm.flush();
+      await this.stageEvents(txEm, records, ctx);
+      return records;
+    });
+
+    for (const { entity } of records) {
+      await this.afterUpdate(entity, ctx);
+    }
+    await this.recordAudit('update', records, ctx);
+    await this.emitEvents(records, ctx);
+    return records.map(record => record.entity);
+  }
+
+  /**
+   * Delete (or soft-delete) every matched record in one transaction and return the deleted records.
+   * `deleted` events are only emitted once the changes have been committed.
+   */
+  async deleteMany(where: FilterQuery<T>, ctx?: CrudHookContext): Promise<T[]> {
+    const softDelete = this.serviceOptions.softDelete;
+    const records = await this.repository.getEntityManager().transactional(async txEm => {
+      const entities = await txEm.find(this.repository.getEntityName(), await this.prepareWhere(where)) as T[];
+      const records: PendingEvent<T>[] = [];
+      for (const entity of entities) {
+        await HookUtil.runBefore(this.beforeDelete(entity, ctx), ctx);
+        records.push({ type: 'deleted', entity, before: this.snapshot(entity) });
+        if (softDelete) {
+          (entity as any)[softDelete.field] = new Date();
+        } else {
+          txEm.remove(entity);
+        }
+      }
+      await txEm.flush();
+      await this.stageEvents(txEm, records, ctx);
+      return records;
+    });
+
+    for (const { entity } of records) {
+      await this.afterDelete(entity, ctx);
+    }
+    await this.recordAudit('delete', records, ctx);
+    await this.emitEvents(records, ctx);
+    return records.map(record => record.entity);
+  }
+
+  /**
+   * The related records of a one-to-many or many-to-many relation of the entity, `where` restricts the listed records
+   */
+  async findRelated<R extends object>(entity: T, relation: string, where: FilterQuery<R> = {}, options: FindOptions<R> = {}): Promise<R[]> {
+    const prop = this.getCollectionProperty(relation);
+    const collection = (entity as any)[relation] as Collection<R>;
+    const scoped = await QueryFilterUtil.resolveRelationConditions(this.repository.getEntityManager(), prop.type, this.scopeRelated(prop, where));
+    return collection.matching({ ...options, where: scoped as FilterQuery<R>, store: false }) as Promise<R[]>;
+  }
+
+  /**
+   * Add the records with the given primary keys to a one-to-many or many-to-many relation of the entity.
+   * `where` restricts the records that may be attached, a 404 is thrown when one of them is not found.
+   */
+  async attach(entity: T, relation: string, ids: unknown[], where: FilterQuery<any> = {}, ctx?: CrudHookContext) {
+    const related = await this.findRelatedByIds(relation, ids, where);
+    return this.changeCollection(entity, relation, ctx, collection => collection.add(related));
+  }
+
+  /**
+   * Remove the records with the given primary keys from a one-to-many or many-to-many relation of the entity.
+   * A 404 is thrown when one of them is not part of the relation or is not matched by `where`.
+   * Detached one-to-many children need a nullable reference or `orphanRemoval` to be deleted instead.
+   */
+  async detach(entity: T, relation: string, ids: unknown[], where: FilterQuery<any> = {}, ctx?: CrudHookContext) {
+    const related = await this.findRelatedByIds(relation, ids, where);
+    return this.changeCollection(entity, relation, ctx, collection => {
+      if (related.some(item => !collection.contains(item))) {
+        throw new NotFoundException(`${EntityNameUtil.classToName({ name: this.getCollectionProperty(relation).type })} not found`);
+      }
+      collection.remove(related);
+    });
+  }
+
+  /**
+   * Replace the records of a one-to-many or many-to-many relation of the entity by the ones with the given primary keys
+   */
+  async setRelated(entity: T, relation: string, ids: unknown[], where: FilterQuery<any> = {}, ctx?: CrudHookContext) {
+    const related = await this.findRelatedByIds(relation, ids, where);
+    return this.changeCollection(entity, relation, ctx, collection => collection.set(related));
+  }
+
+  private getCollectionProperty(relation: string): EntityProperty<T> {
+    const meta = this.repository.getEntityManager().getMetadata().get(this.repository.getEntityName());
+    const prop = meta.properties[relation as keyof typeof meta.properties] as EntityProperty<T> | undefined;
+    if (!prop || (prop.kind !== ReferenceKind.ONE_TO_MANY && prop.kind !== ReferenceKind.MANY_TO_MANY)) {
+      throw new Error(`${relation} is not a one-to-many or many-to-many relation of ${this.slug}`);
+    }
+    return prop;
+  }
+
+  private async findRelatedByIds(relation: string, ids: unknown[], where: FilterQuery<any>): Promise<any[]> {
+    const prop = this.getCollectionProperty(relation);
+    const primaryKey = prop.targetMeta!.primaryKeys[0];
+    const numeric = prop.targetMeta!.properties[primaryKey].runtimeType === 'number';
+    const unique = [...new Map(ids.map(id => [String(id), numeric ? Number(id) : id])).values()];
+    if (unique.length === 0) return [];
+
+    const em = this.repository.getEntityManager();
+    const related = await em.find(prop.type, this.scopeRelated(prop, QueryFilterUtil.combineFilters({ [primaryKey]: { $in: unique } }, where)));
+    if (related.length !== unique.length) {
+      throw new NotFoundException(`${EntityNameUtil.classToName({ name: prop.type })} not found`);
+    }
+    return related;
+  }
+
+  /**
+   * Restrict a filter of related records to the tenant and to the records that are not soft-deleted, when the related
+   * entity has the tenant and soft delete properties of the service
+   */
+  private scopeRelated(prop: EntityProperty<T>, where: FilterQuery<any>): FilterQuery<any> {
+    const { tenant, softDelete } = this.serviceOptions;
+    const properties = prop.targetMeta!.properties as Record<string, EntityProperty>;
+    const scoped = softDelete && properties[softDelete.field] ? SoftDeleteUtil.excludeDeleted(where, softDelete) : where;
+    return tenant && properties[tenant.field] ? TenantUtil.scope(scoped, tenant) : scoped;
+  }
+
+  /**
+   * Apply `change` to the initialized collection and emit an `updated` event of the entity listing the relation change
+   */
+  private async changeCollection(entity: T, relation: string, ctx: CrudHookContext | undefined, change: (collection: Collection<any>) => void): Promise<T> {
+    const collection = (entity as any)[relation] as Collection<any>;
+    if (!collection.isInitialized()) {
+      await collection.init();
+    }
+
+    const ids = () => collection.getItems().map(item => wrap(item, true).getSerializedPrimaryKey());
+    const previous = ids();
+    const before = this.snapshot(entity);
+    change(collection);
+
+    const current = ids();
+    if (previous.length === current.length && previous.every(id => current.includes(id))) {
+      return entity;
+    }
+
+    const events: PendingEvent<T>[] = [{ type: 'updated', entity, before, changes: [{ field: relation, before: previous, after: current }] }];
+    await this.flushWithEvents(this.repository.getEntityManager(), events, ctx);
+    await this.recordAudit('update', events, ctx);
+    await this.emitEvents(events, ctx);
+    return entity;
+  }
+
+  /**
+   * Called before an entity is created, may mutate the data or return `false` to veto the creation
+   */
+  protected beforeCreate(data: RequiredEntityData<T>, ctx?: CrudHookContext): CrudHookResult {}
+
+  protected afterCreate(entity: T, ctx?: CrudHookContext): void | Promise<void> {}
+
+  /**
+   * Called before the changes are applied to the entity, may mutate the data or return `false` to veto the update
+   */
+  protected beforeUpdate(entity: T, data: EntityData<T>, ctx?: CrudHookContext): CrudHookResult {}
+
+  protected afterUpdate(entity: T, ctx?: CrudHookContext): void | Promise<void> {}
+
+  /**
+   * Called before an entity is deleted, may return `false` to veto the deletion
+   */
+  protected beforeDelete(entity: T, ctx?: CrudHookContext): CrudHookResult {}
+
+  protected afterDelete(entity: T, ctx?: CrudHookContext): void | Promise<void> {}
+
+  /**
+   * The recorded changes of the entity, newest first
+   */
+  async findHistory(entity: T): Promise<AuditEntry[]> {
+    const audit = this.serviceOptions.audit;
+    if (!audit) {
+      throw new Error(`Audit is not enabled for ${this.slug}`);
+    }
+    return audit.store.findHistory(this.repository.getEntityName(), AuditUtil.getEntityId(entity));
+  }
+
+  /**
+   * Hand the changes of committed operations to the audit store, `before` is the snapshot taken before the change
+   */
+  private async recordAudit(action: AuditAction, records: { entity: T, before?: EntityData<T>, changes?: CRUDEventChange[] }[], ctx?: CrudHookContext) {
+    const audit = this.serviceOptions.audit;
+    if (!audit || records.length === 0) return;
+
+    const em = this.repository.getEntityManager();
+    const entityName = this.repository.getEntityName();
+    const actor = await this.resolveActor(ctx);
+
+    const entries: AuditEntry[] = records.map(({ entity, before, changes }) => ({
+      entityName,
+      entityId: AuditUtil.getEntityId(entity),
+      action,
+      operation: ctx?.operation,
+      actor,
+      changes: changes?.filter(change => !audit.exclude?.includes(change.field))
+        ?? AuditUtil.getChanges(em, entityName, before, action === 'delete' ? undefined : AuditUtil.snapshot(em, entity), audit.exclude),
+      createdAt: new Date(),
+    }));
+    await audit.store.record(entries);
+  }
+
+  /**
+   * Flush the changes made by `work`. In outbox mode the events are stored in the outbox in the same transaction,
+   * so the OutboxRelay delivers them if and only if the changes are committed.
+   */
+  private async flushWithEvents(em: EntityManager, events: PendingEvent<T>[], ctx?: CrudHookContext, work: () => Promise<unknown> = () => em.flush()) {
+    if (!this.serviceOptions.outbox) {
+      await work();
+      return;
+    }
+
+    if (em.isInTransaction()) {
+      await work();
+      await this.stageEvents(em, events, ctx);
+      await em.flush();
+      return;
+    }
+
+    await em.begin();
+    try {
+      await work();
+      await this.stageEvents(em, events, ctx);
+      await em.commit();
+    } catch (e) {
+      await em.rollback();
+      throw e;
+    }
+  }
+
+  /**
+   * Add the events to the outbox, they are written by the next flush of the entity manager
+   */
+  private async stageEvents(em: EntityManager, events: PendingEvent<T>[], ctx?: CrudHookContext) {
+    if (!this.serviceOptions.outbox || events.length === 0) return;
+
+    const context = await this.eventContext(ctx);
+    for (const event of events) {
+      em.persist(em.create(OutboxMessageEntity, {
+        event: `${this.slug}.${event.type}`,
+        type: event.type,
+        entityName: this.repository.getEntityName(),
+        payload: wrap(event.entity).toObject(),
+        context: { ...context, ...this.describeChanges(event) },
+      }));
+    }
+  }
+
+  /**
+   * Emit the events of committed changes in-process, in outbox mode the OutboxRelay delivers them instead
+   */
+  private async emitEvents(events: PendingEvent<T>[], ctx?: CrudHookContext) {
+    if (this.serviceOptions.outbox || !this.eventEmitter || events.length === 0) return;
+
+    const context = await this.eventContext(ctx);
+    for (const event of events) {
+      this.eventEmitter.emit(`${this.slug}.${event.type}`, createCrudEvent(event.type, event.entity, { ...context, ...this.describeChanges(event) }));
+    }
+  }
+
+  /**
+   * The actor, correlation ID and source shared by the events of one operation.
+   * The correlation ID is kept on the hook context so every event of the request carries the same one.
+   */
+  private async eventContext(ctx?: CrudHookContext): Promise<CRUDEventContext> {
+    if (ctx && !ctx.correlationId) {
+      const headers = (ctx.request as any)?.headers ?? {};
+      ctx.correlationId = headers['x-correlation-id'] ?? headers['x-request-id'] ?? randomUUID();
+    }
+    return {
+      actor: await this.resolveActor(ctx),
+      correlationId: ctx?.correlationId ?? randomUUID(),
+      source: ctx?.operation,
+    };
+  }
+
+  /**
+   * The state before the change and the changed properties, compared with the state committed by the flush
+   */
+  private describeChanges({ type, entity, before, changes }: PendingEvent<T>): Pick<CRUDEventContext, 'previous' | 'changes'> {
+    const after = type === 'deleted' ? undefined : this.snapshot(entity);
+    return {
+      previous: before,
+      changes: changes ?? AuditUtil.getChanges(this.repository.getEntityManager(), this.repository.getEntityName(), before, after),
+    };
+  }
+
+  private async resolveActor(ctx?: CrudHookContext): Promise<string | undefined> {
+    const actor = this.serviceOptions.actor;
+    return ctx?.request && actor ? actor(ctx.request) : undefined;
+  }
+
+  private snapshot(entity: T): EntityData<T> {
+    return AuditUtil.snapshot(this.repository.getEntityManager(), entity);
+  }
+
+  protected scope(where: FilterQuery<T>, withDeleted?: boolean): FilterQuery<T> {
+    return TenantUtil.scope(SoftDeleteUtil.excludeDeleted(where, this.serviceOptions.softDelete, withDeleted), this.serviceOptions.tenant);
+  }
+
+  private async prepareWhere(where: FilterQuery<T>, withDeleted?: boolean): Promise<FilterQuery<T>> {
+    return this.resolveRelations(this.scope(where, withDeleted));
+  }
+
+  private async resolveRelations(where: FilterQuery<T>): Promise<FilterQuery<T>> {
+    return QueryFilterUtil.resolveRelationConditions(this.repository.getEntityManager(), this.repository.getEntityName(), where);
+  }
+
 }
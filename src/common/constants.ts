@@ -1,3 +1,4 @@
 export const CRUD_OPTIONS_METADATA = 'crud:options';
 export const FETCHED_ENTITY_KEY = 'crud:fetched_entity';
 
+export const NESTED_PARENT_KEY = 'crud:nested_parent';
@@ -1,5 +1,5 @@
-import { Get, Post, Body as NestBody, Req, Res, Param, NotFoundException, Type, Request, Put, ParseArrayPipe, Query, Patch, Delete } from '@nestjs/common';
-import { EntityData, FilterQuery, MetadataStorage, AnyEntity } from '@mikro-orm/core';
+import { applyDecorators, Get, Post, Body as NestBody, Req, Res, Param, NotFoundException, BadRequestException, PreconditionFailedException, Type, Request, Put, ParseArrayPipe, Query, Patch, Delete, UseInterceptors } from '@nestjs/common';
+import { EntityData, EntityProperty, FilterQuery, MetadataStorage, AnyEntity, ReferenceKind } from '@mikro-orm/core';
 import { ObjectId as MongoObjectId } from 'mongodb';
 import { ObjectId } from '@mikro-orm/mongodb';
 import type { Request as ExpressRequest, Response as ExpressResponse } from 'express';
@@ -8,11 +8,29 @@ import { Readable } from 'stream';
 import { instanceToPlain } from 'class-transformer';
 import { BaseService } from '../base.service';
 import { EntityNameUtil } from '../utils/entity-name.util';
-import { ApiBadRequestResponse, ApiBody, ApiExtraModels, ApiInternalServerErrorResponse, ApiNotFoundResponse, ApiParam, ApiResponse, ApiTags, getSchemaPath, ApiProduces, ApiProperty, ApiQuery } from '@nestjs/swagger';
+import { ApiBadRequestResponse, ApiBody, ApiExtraModels, ApiInternalServerErrorResponse, ApiNotFoundResponse, ApiParam, ApiResponse, ApiTags, getSchemaPath, ApiProduces, ApiProperty, ApiQuery, ApiConsumes, ApiHeader, ApiNotModifiedResponse, ApiPreconditionFailedResponse, ApiParamOptions } from '@nestjs/swagger';
 import { PaginationDto } from '../dto/pagination.dto';
-import { CrudOptions } from '../interfaces/crud-options.interface';
+import { CursorPaginationDto } from '../dto/cursor-pagination.dto';
+import { ImportReportDto } from '../dto/import-report.dto';
+import { BulkResultDto } from '../dto/bulk-result.dto';
+import { AuditEntryDto } from '../dto/audit-entry.dto';
+import { RelationIdsDto } from '../dto/relation-ids.dto';
+import { CrudOptions, CrudRelationOptions } from '../interfaces/crud-options.interface';
 import { DtoFactory } from '../utils/dto-factory.util';
 import { QueryFilterUtil } from '../utils/query-filter.util';
+import { SoftDeleteUtil } from '../utils/soft-delete.util';
+import { CursorUtil } from '../utils/cursor.util';
+import { HookUtil } from '../utils/hook.util';
+import { FieldAccessUtil } from '../utils/field-access.util';
+import { EtagUtil } from '../utils/etag.util';
+import { TenantUtil } from '../utils/tenant.util';
+import { CrudTenantInterceptor } from './tenant.decorator';
+import { CrudNestedInterceptor } from './nested.decorator';
+import { NestedUtil } from '../utils/nested.util';
+import { PatchUtil, MERGE_PATCH_CONTENT_TYPE, JSON_PATCH_CONTENT_TYPE } from '../utils/patch.util';
+import { ImportUtil, IMPORT_CONTENT_TYPES } from '../utils/import.util';
+import { ImportFailure, ServiceImportOptions } from '../interfaces/import-report.interface';
+import { CrudHookContext } from '../interfaces/crud-hooks.interface';
 
 export interface ICrudController<T extends AnyEntity> {
   readonly service: BaseService<T>;
@@ -101,6 +119,389 @@ export function Crud<T extends AnyEntity, C = EntityData<T>, U = EntityData<T>>(
     return id;
   };
 
+  const queryConfig = typeof options.operations?.query === 'object' ? options.operations.query : undefined;
+
+  /**
+   * The tenant of the request, from the context set by the CrudTenantInterceptor
+   */
+  const resolveTenant = async (request: Request) => {
+    return TenantUtil.getTenant() ?? await options.tenant?.resolve(request);
+  };
+
+  /**
+   * The server-side `filter` option, restricted to the tenant of the request and the parent of the route
+   */
+  const resolveFilter = async (request: Request, params: Record<string, string>) => {
+    let filter: FilterQuery<T> | undefined = await options.filter?.(request, params);
+    if (options.nested) {
+      filter = NestedUtil.scope(filter, options.nested, params);
+    }
+    if (!options.tenant) return filter;
+    return QueryFilterUtil.combineFilters(filter, { [options.tenant.field]: await resolveTenant(request) }) as FilterQuery<T>;
+  };
+
+  /**
+   * Keep an update from moving the record to another tenant or parent
+   */
+  const pinScope = async (request: Request, body: object, params: Record<string, string>) => {
+    if (options.tenant) {
+      (body as any)[options.tenant.field] = await resolveTenant(request);
+    }
+    if (options.nested) {
+      (body as any)[options.nested.relation] = NestedUtil.parseParentId(options.nested, params);
+    }
+  };
+
+  /**
+   * The server-side `persist` option, including the tenant of the request and the parent of the route
+   */
+  const resolvePersist = async (request: Request, params: Record<string, string>): Promise<EntityData<T>> => {
+    const persist: Record<string, any> = { ...await options.persist?.(request, params) };
+    if (options.nested) {
+      persist[options.nested.relation] = NestedUtil.parseParentId(options.nested, params);
+    }
+    if (options.tenant) {
+      persist[options.tenant.field] = await resolveTenant(request);
+    }
+    return persist as EntityData<T>;
+  };
+
+  const importConfig = typeof options.operations?.import === 'object' ? options.operations.import : undefined;
+
+  /**
+   * The fields the caller is not allowed to read, it can neither filter, search nor sort by them
+   */
+  const resolveReadForbidden = async (request: Request) => {
+    return options.fieldAccess
+      ? FieldAccessUtil.getForbiddenFields(options.entity, await options.fieldAccess.roles(request), 'read')
+      : [];
+  };
+
+  /**
+   * Parse the filter, structured filter and search query parameters configured for the query operation
+   */
+  const parseClientFilters = async (request: Request) => {
+    const query: Record<string, any> = (request as any).query ?? {};
+    const filterConfig = queryConfig?.filter;
+    const forbidden = await resolveReadForbidden(request);
+
+    const parsedFilter = filterConfig ? QueryFilterUtil.parseQueryFilters(query, filterConfig, options.entity, forbidden) : {};
+    const structuredFilter = filterConfig ? QueryFilterUtil.parseStructuredFilter(query.filter, filterConfig, options.entity, forbidden) : undefined;
+    const searchFilter = queryConfig?.search ? QueryFilterUtil.parseSearch(query.q, queryConfig.search, options.entity, forbidden) : undefined;
+
+    return [parsedFilter, structuredFilter, searchFilter];
+  };
+
+  /**
+   * Combine the query parameter filters with the server-side `filter` option using $and,
+   * so a query parameter can never overwrite the server-side scoping
+   */
+  const resolveListFilter = async (request: Request, params: Record<string, string>) => {
+    const userFilter = await resolveFilter(request, params);
+    return QueryFilterUtil.combineFilters(...await parseClientFilters(request), userFilter) as FilterQuery<T>;
+  };
+
+  /**
+   * Select the records of a bulk operation by primary keys or by the query filters, always scoped by the `filter` option.
+   * A selection is required, so a forgotten filter never affects every record.
+   */
+  const resolveBulkFilter = async (request: Request, params: Record<string, string>, ids?: unknown) => {
+    let selection: Record<string, any>;
+    if (ids !== undefined) {
+      if (!Array.isArray(ids) || ids.length === 0 || ids.some(id => typeof id !== 'string' && typeof id !== 'number')) {
+        throw new BadRequestException('ids must be a non-empty array of identifiers');
+      }
+      selection = { [primaryKey]: { $in: ids.map(id => parseId(String(id))) } };
+    } else {
+      selection = QueryFilterUtil.combineFilters(...await parseClientFilters(request));
+    }
+
+    if (Object.keys(selection).length === 0) {
+      throw new BadRequestException('Select the records with ids or query filters');
+    }
+
+    const userFilter = await resolveFilter(request, params);
+    return QueryFilterUtil.combineFilters(selection, userFilter) as FilterQuery<T>;
+  };
+
+  /**
+   * Resolve the `fields` query parameter, the selected properties always include the primary key and the given extra fields
+   */
+  const { toExposed, toInternal } = QueryFilterUtil.getExposedNameMap(options.entity);
+  const toExposedName = (key: string) => toExposed.get(key) || key;
+  const toInternalName = (exposedName: string) => toInternal.get(exposedName) || exposedName;
+
+  const resolveFields = (query: Record<string, any>, extra: string[] = []) => {
+    const fields = QueryFilterUtil.parseFields(query?.fields, options.entity);
+    if (!fields) return undefined;
+
+    const select = fields.select
+      ? [...new Set([primaryKey, ...extra, ...fields.select])] as any[]
+      : undefined;
+    return { exposed: fields.exposed, select };
+  };
+
+  const readConfig = typeof options.operations?.read === 'object' ? options.operations.read : undefined;
+  const versionProperty = EtagUtil.getVersionProperty(options.entity);
+
+  /**
+   * Reject the request with 412 when its `If-Match` header does not match the current version of the entity
+   */
+  const checkIfMatch = (request: Request, entity: T) => {
+    const ifMatch = (request as any).headers?.['if-match'];
+    const version = EtagUtil.getVersion(entity);
+    if (ifMatch && !EtagUtil.matches(ifMatch, version)) {
+      throw new PreconditionFailedException('The record has been modified since it was read');
+    }
+    return ifMatch ? version : undefined;
+  };
+
+  const setEtag = (res: ExpressResponse, entity: T) => {
+    const version = EtagUtil.getVersion(entity);
+    if (version !== undefined) {
+      res.header('ETag', EtagUtil.toEtag(version));
+    }
+    return version;
+  };
+
+  const resolveInclude = (query: Record<string, any>, populate?: string[]) => {
+    return (populate ? QueryFilterUtil.parseInclude(query?.include, populate, options.entity) : undefined) as any;
+  };
+
+  /**
+   * Reject (or strip) the fields of the body the caller is not allowed to write
+   */
+  const enforceFieldWrite = async (request: Request, body: object, entity?: T) => {
+    if (!options.fieldAccess) return;
+    const roles = await options.fieldAccess.roles(request, entity);
+    FieldAccessUtil.enforceWrite(options.entity, body, roles, options.fieldAccess.forbiddenWrite);
+  };
+
+  /**
+   * Hide the fields of the returned entities the caller is not allowed to read
+   */
+  const hideFields = async <X extends T | null | undefined>(request: Request, entity: X): Promise<X> => {
+    if (!options.fieldAccess || !entity) return entity;
+    const roles = await options.fieldAccess.roles(request, entity as T);
+    return FieldAccessUtil.filterReadable(options.entity, entity as T, roles) as X;
+  };
+
+  const standardMethods = options.methodSemantics === 'standard';
+  const replaceableFields = standardMethods ? DtoFactory.getDtoProperties(options.createDto!) : [];
+
+  const replaceRoute = standardMethods ? Put(':id') : Patch(':id');
+  const updateRoute = standardMethods
+    ? applyDecorators(
+      Patch(':id'),
+      ApiConsumes(MERGE_PATCH_CONTENT_TYPE, JSON_PATCH_CONTENT_TYPE, 'application/json'),
+      ApiBody({
+        schema: {
+          oneOf: [
+            { $ref: getSchemaPath(options.updateDto!) },
+            {
+              type: 'array',
+              items: {
+                type: 'object',
+                required: ['op', 'path'],
+                properties: {
+                  op: { type: 'string', enum: ['add', 'remove', 'replace', 'move', 'copy', 'test'] },
+                  path: { type: 'string' },
+                  from: { type: 'string' },
+                  value: {},
+                },
+              },
+            },
+          ],
+        },
+      }),
+    )
+    : Put(':id');
+
+  /**
+   * Full replacement: the writable fields missing from the body are reset, except the ones the caller may not write.
+   * A field is reset to the initial value of a new entity or the `default` of its property, otherwise to null when
+   * the property is nullable, or it is removed.
+   */
+  const resetMissingFields = async (request: Request, body: object, entity: T) => {
+    const forbidden = options.fieldAccess
+      ? FieldAccessUtil.getForbiddenFields(options.entity, await options.fieldAccess.roles(request, entity), 'write')
+      : [];
+    const initial = createInitialEntity();
+    for (const field of replaceableFields) {
+      if ((body as any)[field] !== undefined || forbidden.includes(field)) continue;
+
+      const prop = meta?.properties[field as keyof typeof meta.properties] as EntityProperty | undefined;
+      // Collections are replaced through the relation routes
+      if (prop && (prop.kind === ReferenceKind.ONE_TO_MANY || prop.kind === ReferenceKind.MANY_TO_MANY)) continue;
+
+      if (initial?.[field] !== undefined) {
+        (body as any)[field] = initial[field];
+      } else if (prop?.default !== undefined) {
+        (body as any)[field] = prop.default;
+      } else {
+        (body as any)[field] = prop?.nullable ? null : undefined;
+      }
+    }
+  };
+
+  /**
+   * A new entity holding the property initializers, undefined when the constructor requires arguments
+   */
+  const createInitialEntity = (): Record<string, any> | undefined => {
+    try {
+      return new (options.entity as new () => Record<string, any>)();
+    } catch (e) {
+      return undefined;
+    }
+  };
+
+  const hideFieldsMany = (request: Request, entities: T[]) => Promise.all(entities.map(entity => hideFields(request, entity)));
+
+  /**
+   * Only return the fields requested with the `fields` query parameter, like the export route does
+   */
+  const pickFields = (entity: T, fields?: { exposed: string[] }) => {
+    if (!fields) return entity;
+    const plain = instanceToPlain(entity);
+    return Object.fromEntries(fields.exposed.map(field => [field, plain[field]]));
+  };
+
+  const resolveOrderBy = async (request: Request) => {
+    const requested = queryConfig?.sortable
+      ? QueryFilterUtil.parseQuerySort((request as any).query?.sort, queryConfig.sortable, options.entity, await resolveReadForbidden(request))
+      : undefined;
+
+    if (requested) {
+      return requested;
+    }
+
+    if (!queryConfig?.sort || !Array.isArray(queryConfig.sort)) {
+      return undefined;
+    }
+
+    const orderBy: Record<string, 'ASC' | 'DESC'> = {};
+    for (const s of queryConfig.sort) {
+      orderBy[s.field] = s.order;
+    }
+    return orderBy;
+  };
+
+  /**
+   * Parse the ids of a relation request body
+   */
+  const parseRelationIds = (ids: unknown, allowEmpty: boolean) => {
+    if (!Array.isArray(ids) || (!allowEmpty && ids.length === 0) || ids.some(id => typeof id !== 'string' && typeof id !== 'number')) {
+      throw new BadRequestException(`ids must be a${allowEmpty ? 'n' : ' non-empty'} array of identifiers`);
+    }
+    return ids as (string | number)[];
+  };
+
+  /**
+   * Define the list, attach, set and detach routes of a one-to-many or many-to-many relation on the CrudHost
+   */
+  const defineRelationRoutes = (host: object, relation: string, config: CrudRelationOptions) => {
+    const prop = meta?.properties[relation as keyof typeof meta.properties];
+    if (!prop || (prop.kind !== ReferenceKind.ONE_TO_MANY && prop.kind !== ReferenceKind.MANY_TO_MANY)) {
+      throw new Error(`${relation} is not a one-to-many or many-to-many relation of ${options.entity.name}`);
+    }
+    const relatedEntity = prop.entity() as Type<any>;
+    ApiPropertyUtil.createApiEntity(relatedEntity);
+
+    const name = relation.charAt(0).toUpperCase() + relation.slice(1);
+    const relatedName = EntityNameUtil.classToName(relatedEntity);
+
+    const findOwner = async (self: ICrudController<T>, request: Request, id: string, params: Record<string, string>) => {
+      const filter = await resolveFilter(request, params);
+      const result = await self.service.findOne(QueryFilterUtil.combineFilters(filter, { [primaryKey]: parseId(id) }) as FilterQuery<T>);
+
+      if (!result) {
+        throw new NotFoundException(`${EntityNameUtil.getName(options.entity.name)} not found`);
+      }
+      return result;
+    };
+
+    /**
+     * Whether the caller may change the relation, stripped relations are left unchanged
+     */
+    const mayWrite = async (request: Request, owner: T, ids: unknown[]) => {
+      const body = { [relation]: ids };
+      await enforceFieldWrite(request, body, owner);
+      return relation in body;
+    };
+
+    const defineRoute = (key: string, handler: Function, parameters: [ParameterDecorator, any][], decorators: MethodDecorator[]) => {
+      Object.defineProperty(host, key, { value: handler, writable: true, configurable: true });
+      Reflect.defineMetadata('design:paramtypes', parameters.map(([, type]) => type), host, key);
+      parameters.forEach(([decorator], index) => decorator(host, key, index));
+
+      const descriptor = Object.getOwnPropertyDescriptor(host, key)!;
+      applyDecorators(...decorators, ...config.decorators ?? [])(host, key, descriptor);
+      Object.defineProperty(host, key, descriptor);
+    };
+
+    defineRoute(`list${name}`, async function (this: ICrudController<T>, req: Request, id: string, params: Record<string, string>) {
+      const owner = await findOwner(this, req, id, params);
+      return this.service.findRelated(owner, relation, await config.filter?.(req, params));
+    }, [[Req(), Object], [Param('id'), String], [Param(), Object]], [
+      Get(`:id/${relation}`),
+      ApiNotFoundResponse(),
+      ApiInternalServerErrorResponse(),
+      ApiResponse({ status: 200, type: [relatedEntity] }),
+    ]);
+
+    if (config.readOnly) return;
+
+    defineRoute(`attach${name}`, async function (this: ICrudController<T>, req: Request, id: string, params: Record<string, string>, body: RelationIdsDto) {
+      const ids = parseRelationIds(body?.ids, false);
+      const owner = await findOwner(this, req, id, params);
+      const filter = await config.filter?.(req, params);
+      if (await mayWrite(req, owner, ids)) {
+        const ctx: CrudHookContext = { operation: 'attach', request: req, params };
+        await this.service.attach(owner, relation, ids, filter, ctx);
+      }
+      return this.service.findRelated(owner, relation, filter);
+    }, [[Req(), Object], [Param('id'), String], [Param(), Object], [NestBody(), RelationIdsDto]], [
+      Post(`:id/${relation}`),
+      ApiBody({ type: RelationIdsDto }),
+      ApiNotFoundResponse({ description: `${EntityNameUtil.getName(options.entity.name)} or ${relatedName} not found` }),
+      ApiBadRequestResponse(),
+      ApiInternalServerErrorResponse(),
+      ApiResponse({ status: 201, type: [relatedEntity] }),
+    ]);
+
+    defineRoute(`set${name}`, async function (this: ICrudController<T>, req: Request, id: string, params: Record<string, string>, body: RelationIdsDto) {
+      const ids = parseRelationIds(body?.ids, true);
+      const owner = await findOwner(this, req, id, params);
+      const filter = await config.filter?.(req, params);
+      if (await mayWrite(req, owner, ids)) {
+        const ctx: CrudHookContext = { operation: 'setRelation', request: req, params };
+        await this.service.setRelated(owner, relation, ids, filter, ctx);
+      }
+      return this.service.findRelated(owner, relation, filter);
+    }, [[Req(), Object], [Param('id'), String], [Param(), Object], [NestBody(), RelationIdsDto]], [
+      Put(`:id/${relation}`),
+      ApiBody({ type: RelationIdsDto }),
+      ApiNotFoundResponse({ description: `${EntityNameUtil.getName(options.entity.name)} or ${relatedName} not found` }),
+      ApiBadRequestResponse(),
+      ApiInternalServerErrorResponse(),
+      ApiResponse({ status: 200, type: [relatedEntity] }),
+    ]);
+
+    defineRoute(`detach${name}`, async function (this: ICrudController<T>, req: Request, id: string, relatedId: string, params: Record<string, string>) {
+      const owner = await findOwner(this, req, id, params);
+      if (await mayWrite(req, owner, [relatedId])) {
+        const ctx: CrudHookContext = { operation: 'detach', request: req, params };
+        await this.service.detach(owner, relation, [relatedId], await config.filter?.(req, params), ctx);
+      }
+      return;
+    }, [[Req(), Object], [Param('id'), String], [Param('relatedId'), String], [Param(), Object]], [
+      Delete(`:id/${relation}/:relatedId`),
+      ApiNotFoundResponse({ description: `${EntityNameUtil.getName(options.entity.name)} or ${relatedName} not found` }),
+      ApiInternalServerErrorResponse(),
+      ApiResponse({ status: 200 }),
+    ]);
+  };
+
   return function (target: Function) {
     const path = Reflect.getMetadata('path', target);
     if(!path) {
@@ -110,10 +511,19 @@ export function Crud<T extends AnyEntity, C = EntityData<T>, U = EntityData<T>>(
 
     
     Reflect.defineMetadata(CRUD_OPTIONS_METADATA, options, target);
+    if (options.tenant) {
+      UseInterceptors(CrudTenantInterceptor)(target);
+    }
+    if (options.nested) {
+      UseInterceptors(CrudNestedInterceptor)(target);
+    }
 
     const queryUsesPagination = options.operations?.query !== false ? options.operations?.query?.pagination !== false : false;
+    const queryUsesCursor = queryUsesPagination && queryConfig?.pagination === 'cursor';
 
     @ApiExtraModels(PaginationDto)
+    @ApiExtraModels(CursorPaginationDto)
+    @ApiExtraModels(ImportReportDto)
     @ApiExtraModels(options.createDto)
     @ApiExtraModels(options.updateDto)
     @ApiTags(options.tag ?? EntityNameUtil.classToName(options.entity))
@@ -122,27 +532,156 @@ export function Crud<T extends AnyEntity, C = EntityData<T>, U = EntityData<T>>(
       @Post('import')
       @ApiBadRequestResponse()
       @ApiInternalServerErrorResponse()
-      @ApiBody({ type: [options.createDto] })
-      @ApiResponse({
+      @ApiConsumes(...(importConfig ? IMPORT_CONTENT_TYPES : ['application/json']))
+      @ApiBody({
+        type: [options.createDto],
+        description: importConfig
+          ? `A JSON array, a CSV or NDJSON body, or a multipart/form-data upload with a .csv, .ndjson or .json file. Columns use the exposed property names. At most ${importConfig.maxRows ?? 10000} rows and ${importConfig.maxBytes ?? 10 * 1024 * 1024} bytes.`
+          : undefined,
+      })
+      @ApiResponse(importConfig ? {
+        status: 201,
+        description: 'The import report, listing the created records and the rows that failed.',
+        schema: {
+          allOf: [
+            { $ref: getSchemaPath(ImportReportDto) },
+            {
+              type: 'object',
+              required: ['created', 'failed'],
+              properties: {
+                created: {
+                  type: 'array',
+                  items: { $ref: getSchemaPath(options.entity) },
+                },
+                ...(importConfig?.upsertBy?.length ? {
+                  updated: {
+                    type: 'array',
+                    items: { $ref: getSchemaPath(options.entity) },
+                  },
+                } : {}),
+              },
+            },
+          ],
+        },
+      } : {
         status: 201,
         description: 'The records where successfully created.',
         type: [options.entity],
       })
       async import(
-        @Body([options.createDto]) body: C[],
+        @Body<any>(importConfig ? Array : [options.createDto]) body: C[],
         @Req() req: Request,
         @Param() params: any,
       ) {
         // Access 'this' which will be the UserController instance
         const self = this as unknown as ICrudController<T>;
 
+        const ctx: CrudHookContext = { operation: 'import', request: req, params };
+
+        if (importConfig) {
+          let records: AsyncIterable<any> | any[] | undefined = ImportUtil.parseRequest(req as unknown as ExpressRequest, options.entity, importConfig);
+          if (!records) {
+            if (!Array.isArray(body)) {
+              throw new BadRequestException('Expected an array of records');
+            }
+            ImportUtil.checkRowCount(body, importConfig);
+            records = body;
+          }
+
+          const atomic = importConfig.atomic !== false;
+          const batchSize = importConfig.batchSize ?? 500;
+          const failed: ImportFailure[] = [];
+          let rows: { index: number, item: C }[] = [];
+
+          const report = new ImportReportDto<T>();
+          report.created = [];
+          report.failed = failed;
+          if (importConfig.upsertBy?.length) {
+            report.updated = [];
+            report.unchanged = 0;
+          }
+
+          // Only match existing records of the same parent
+          const importOptions: ServiceImportOptions<T> = options.nested && importConfig.upsertBy?.length
+            ? { ...importConfig, upsertBy: [...importConfig.upsertBy, options.nested.relation] }
+            : { ...importConfig };
+          // The before hook of a row runs once the service knows whether it is inserted or updated
+          importOptions.hooks = {
+            beforeCreate: options.hooks?.beforeCreate && ((data, ctx) => options.hooks!.beforeCreate!(data as C, ctx)),
+            beforeUpdate: options.hooks?.beforeUpdate && ((entity, data, ctx) => options.hooks!.beforeUpdate!(entity, data as U, ctx)),
+          };
+
+          const persistRows = async () => {
+            const batch = rows;
+            rows = [];
+            const result = await self.service.importMany(batch.map(row => row.item as any), importOptions, ctx);
+            report.created.push(...await hideFieldsMany(req, result.created));
+            if (importConfig.upsertBy?.length) {
+              report.updated!.push(...await hideFieldsMany(req, result.updated ?? []));
+              report.unchanged! += result.unchanged ?? 0;
+            }
+            for (const failure of result.failed) {
+              failed.push({ index: batch[failure.index].index, errors: failure.errors });
+            }
+            for (const entity of result.created) {
+              await options.hooks?.afterCreate?.(entity, ctx);
+            }
+            for (const entity of result.updated ?? []) {
+              await options.hooks?.afterUpdate?.(entity, ctx);
+            }
+          };
+
+          // Rows are validated as they are read, a non-atomic import persists them in batches
+          let index = 0;
+          for await (const record of records) {
+            const rowIndex = index++;
+            // The body is not validated by the ValidationPipe, so properties the create DTO does not declare are rejected here
+            const result = await ImportUtil.validateRow(record, options.createDto, { whitelist: true, forbidNonWhitelisted: true });
+            if (!('item' in result)) {
+              failed.push({ index: rowIndex, errors: result.errors });
+              continue;
+            }
+
+            try {
+              await enforceFieldWrite(req, result.item as object);
+              const persist = await resolvePersist(req, params);
+              const defaultValues = await options.defaultValues?.(req, params) ?? {};
+              Object.assign(result.item as object, persist);
+              Object.assign(result.item as object, defaultValues);
+            } catch (e) {
+              failed.push({ index: rowIndex, errors: ImportUtil.describeError(e) });
+              continue;
+            }
+
+            // An atomic import with a failed row persists nothing, so the remaining rows are only validated
+            if (atomic && failed.length > 0) continue;
+            rows.push({ index: rowIndex, item: result.item });
+            if (!atomic && rows.length >= batchSize) {
+              await persistRows();
+            }
+          }
+
+          if (rows.length > 0 && (!atomic || failed.length === 0)) {
+            await persistRows();
+          }
+
+          failed.sort((a, b) => a.index - b.index);
+          return report;
+        }
+
         for (const item of body) {
-          const persist = await options.persist?.(req, params) ?? {};
+          await enforceFieldWrite(req, item as object);
+          const persist = await resolvePersist(req, params);
           const defaultValues = await options.defaultValues?.(req, params) ?? {};
           Object.assign(item as object, persist);
           Object.assign(item as object, defaultValues);
+          await HookUtil.runBefore(options.hooks?.beforeCreate?.(item, ctx), ctx);
+        }
+        const entities = await self.service.createMany(body as any[], ctx); // Cast to any or RequiredEntityData
+        for (const entity of entities) {
+          await options.hooks?.afterCreate?.(entity, ctx);
         }
-        return await self.service.createMany(body as any[]); // Cast to any or RequiredEntityData
+        return await hideFieldsMany(req, entities);
       }
 
       @Post()
@@ -161,12 +700,18 @@ export function Crud<T extends AnyEntity, C = EntityData<T>, U = EntityData<T>>(
         // Access 'this' which will be the UserController instance
         const self = this as unknown as ICrudController<T>;
 
-        const persist = await options.persist?.(req, params) ?? {};
+        await enforceFieldWrite(req, body as object);
+        const persist = await resolvePersist(req, params);
         const defaultValues = await options.defaultValues?.(req, params) ?? {};
         Object.assign(body as object, persist);
         Object.assign(body as object, defaultValues);
 
-        return await self.service.create(body as any);
+        const ctx: CrudHookContext = { operation: 'create', request: req, params };
+        await HookUtil.runBefore(options.hooks?.beforeCreate?.(body, ctx), ctx);
+
+        const entity = await self.service.create(body as any, ctx);
+        await options.hooks?.afterCreate?.(entity, ctx);
+        return await hideFields(req, entity);
       }
 
       @Get()
@@ -176,7 +721,7 @@ export function Crud<T extends AnyEntity, C = EntityData<T>, U = EntityData<T>>(
         status: 200,
         schema: queryUsesPagination ? {
           allOf: [
-            { $ref: getSchemaPath(PaginationDto) },
+            { $ref: getSchemaPath(queryUsesCursor ? CursorPaginationDto : PaginationDto) },
             {
               type: 'object',
               required: ['data',],
@@ -193,7 +738,9 @@ export function Crud<T extends AnyEntity, C = EntityData<T>, U = EntityData<T>>(
           items: { $ref: getSchemaPath(options.entity) },
         }
       })
-      @ApiQuery({ name: 'page', type: 'number', required: false, description: 'The page number, starting from 0' })
+      @ApiQuery(queryUsesCursor
+        ? { name: 'cursor', type: 'string', required: false, description: 'The nextCursor of the previous page, omit for the first page' }
+        : { name: 'page', type: 'number', required: false, description: 'The page number, starting from 0' })
       @ApiQuery({ name: 'limit', type: 'number', required: false, description: 'The number of items per page' })
       async query(
         @Req() req: Request,
@@ -202,23 +749,37 @@ export function Crud<T extends AnyEntity, C = EntityData<T>, U = EntityData<T>>(
         @Query('limit') limit?: number,
       ) {
         const self = this as unknown as ICrudController<T>;
-        const userFilter = await options?.filter?.(req, params);
-        
-        const parsedFilter = options.operations?.query && typeof options.operations.query === 'object' && options.operations.query.filter
-          ? QueryFilterUtil.parseQueryFilters((req as any).query, options.operations.query.filter, options.entity)
-          : {};
-
-        const filter = { ...parsedFilter, ...(userFilter ?? {}) };
-
-        const queryOptions = options.operations?.query;
-        const sort = typeof queryOptions === 'object' ? queryOptions?.sort : undefined;
-        let orderBy: any = undefined;
+        const filter = await resolveListFilter(req, params);
+
+        const orderBy: any = await resolveOrderBy(req);
+        const withDeleted = await SoftDeleteUtil.resolveWithDeleted(options.softDelete, req, params);
+        const populate = resolveInclude((req as any).query, queryConfig?.populate);
+        const fields = resolveFields((req as any).query, [...Object.keys(orderBy ?? {}), ...(populate ?? []).map(path => path.split('.')[0])]);
+
+        if (queryUsesCursor) {
+          limit = Number(limit) || 100;
+
+          const order = CursorUtil.getKeysetOrder(orderBy, primaryKey);
+          const cursor = (req as any).query?.cursor;
+          const keyset = cursor ? CursorUtil.buildWhere(order, CursorUtil.decode(cursor, order)) : undefined;
+
+          const data = await self.service.findAll(QueryFilterUtil.combineFilters(filter, keyset) as FilterQuery<T>, {
+            limit: limit + 1,
+            orderBy: CursorUtil.toOrderBy(order) as any,
+            fields: fields?.select,
+            populate,
+            withDeleted,
+          });
+          const hasMore = data.length > limit;
+          if (hasMore) data.pop();
 
-        if (sort && Array.isArray(sort)) {
-          orderBy = {};
-          for (const s of sort) {
-            orderBy[s.field] = s.order;
-          }
+          const pagination = new CursorPaginationDto();
+          Object.assign(pagination, {
+            data: (await hideFieldsMany(req, data)).map(entity => pickFields(entity, fields)),
+            limit,
+            nextCursor: hasMore ? CursorUtil.encode(data[data.length - 1], order) : null,
+          });
+          return pagination;
         }
 
         if (queryUsesPagination) {
@@ -229,10 +790,13 @@ export function Crud<T extends AnyEntity, C = EntityData<T>, U = EntityData<T>>(
             offset: page * limit,
             limit: limit,
             orderBy,
+            fields: fields?.select,
+            populate,
+            withDeleted,
           });
           const pagination = new PaginationDto();
           Object.assign(pagination, {
-            data,
+            data: (await hideFieldsMany(req, data)).map(entity => pickFields(entity, fields)),
             total,
             page,
             limit,
@@ -241,7 +805,8 @@ export function Crud<T extends AnyEntity, C = EntityData<T>, U = EntityData<T>>(
           return pagination;
         }
 
-        return await self.service.findAll(filter ?? {}, { orderBy });
+        const data = await self.service.findAll(filter ?? {}, { orderBy, fields: fields?.select, populate, withDeleted });
+        return (await hideFieldsMany(req, data)).map(entity => pickFields(entity, fields));
       }
 
       @Get("/export")
@@ -272,37 +837,48 @@ export function Crud<T extends AnyEntity, C = EntityData<T>, U = EntityData<T>>(
         @Res({ passthrough: true }) res: ExpressResponse,
       ) {
         const self = this as unknown as ICrudController<T>;
-        const userFilter = options?.filter?.(nestReq, params) ?? {};
-        const parsedFilter = options.operations?.query && typeof options.operations.query === 'object' && options.operations.query.filter
-          ? QueryFilterUtil.parseQueryFilters((nestReq as any).query, options.operations.query.filter, options.entity)
-          : {};
-
-        const filter = { ...parsedFilter, ...userFilter };
+        const filter = await resolveListFilter(nestReq, params);
+        const orderBy: any = await resolveOrderBy(nestReq);
+        const withDeleted = await SoftDeleteUtil.resolveWithDeleted(options.softDelete, nestReq, params);
         const isCsv = req.headers['accept'] === 'text/csv';
 
         const batchSize = 500;
-        let page = 0;
+        const order = CursorUtil.getKeysetOrder(orderBy, primaryKey);
+        const populate = resolveInclude((nestReq as any).query, queryConfig?.populate);
+        const fields = resolveFields((nestReq as any).query, [...order.map(([field]) => field), ...(populate ?? []).map(path => path.split('.')[0])]);
+        const exportConfig = typeof options.operations?.export === 'object' ? options.operations.export : undefined;
+        let keyset: Record<string, any> | undefined;
         let aborted = false;
 
         req.on('close', () => {
           aborted = true;
         });
 
+        // Iterate using keyset pagination, so records are neither skipped nor duplicated when data changes mid-export
         async function* generateData() {
           while (!aborted) {
-            const [items, _] = await self.service.query(filter, {
-              offset: page * batchSize,
-              limit: batchSize
+            const items = await self.service.findAll(QueryFilterUtil.combineFilters(filter, keyset) as FilterQuery<T>, {
+              limit: batchSize,
+              orderBy: CursorUtil.toOrderBy(order) as any,
+              fields: fields?.select,
+              populate,
+              withDeleted,
             });
 
             if (items.length === 0) break;
 
             for (const item of items) {
-              yield instanceToPlain(item);
+              let plain = instanceToPlain(item);
+              if (options.fieldAccess) {
+                const roles = await options.fieldAccess.roles(nestReq, item);
+                plain = FieldAccessUtil.filterReadablePlain(options.entity, plain, roles);
+              }
+              yield fields ? Object.fromEntries(fields.exposed.map(field => [field, plain[field]])) : plain;
             }
 
             if (items.length < batchSize) break;
-            page++;
+            const last = items[items.length - 1];
+            keyset = CursorUtil.buildWhere(order, order.map(([field]) => last[field]));
           }
         }
 
@@ -310,7 +886,16 @@ export function Crud<T extends AnyEntity, C = EntityData<T>, U = EntityData<T>>(
           res.header('Content-Type', 'text/csv');
           res.header('Content-Disposition', `attachment; filename=${options.tag ?? 'export'}.csv`);
 
-          const transformOpts = { header: true };
+          const columns = fields?.exposed
+            ?? exportConfig?.fields?.map(field => toExposedName(field))
+            ?? (exportConfig?.labels ? [...toInternal.keys()] : undefined);
+          const transformOpts = {
+            header: true,
+            fields: columns?.map(column => ({
+              label: exportConfig?.labels?.[toInternalName(column)] ?? column,
+              value: column,
+            })),
+          };
           const json2csv = new CsvTransform(transformOpts);
           Readable.from(generateData()).pipe(json2csv).pipe(res);
         } else {
@@ -331,10 +916,107 @@ export function Crud<T extends AnyEntity, C = EntityData<T>, U = EntityData<T>>(
         }
       }
 
+      @Patch('/bulk')
+      @ApiBadRequestResponse()
+      @ApiInternalServerErrorResponse()
+      @ApiBody({
+        schema: {
+          type: 'object',
+          required: ['data'],
+          properties: {
+            ids: { type: 'array', items: { type: 'string' }, description: 'Records to update, the query filters are used when omitted' },
+            data: { $ref: getSchemaPath(options.updateDto!) },
+          },
+        },
+      })
+      @ApiResponse({
+        status: 200,
+        type: BulkResultDto,
+      })
+      async bulkUpdate(
+        @Body<any>(Object) body: { ids?: unknown, data?: U },
+        @Req() req: Request,
+        @Param() params: any,
+      ) {
+        const self = this as unknown as ICrudController<T>;
+        const filter = await resolveBulkFilter(req, params, body?.ids);
+
+        // Like a PATCH, the data may only change the properties the update DTO declares
+        const { valid, failed } = await ImportUtil.validateRows([body?.data], options.updateDto!, { whitelist: true, forbidNonWhitelisted: true });
+        if (failed.length > 0) {
+          throw new BadRequestException(failed[0].errors.map(error => `data: ${error}`));
+        }
+        const data = valid[0].item as Record<string, any>;
+        for (const key in data) {
+          if (data[key] === undefined) {
+            delete data[key];
+          }
+        }
+        await enforceFieldWrite(req, data);
+        await pinScope(req, data, params);
+
+        const ctx: CrudHookContext = { operation: 'bulkUpdate', request: req, params };
+        const entities = await self.service.findAll(filter);
+        for (const entity of entities) {
+          await HookUtil.runBefore(options.hooks?.beforeUpdate?.(entity, data as U, ctx), ctx);
+        }
+
+        const updated = await self.service.updateMany({ [primaryKey]: { $in: entities.map(entity => entity[primaryKey]) } } as FilterQuery<T>, data as any, ctx);
+        for (const entity of updated) {
+          await options.hooks?.afterUpdate?.(entity, ctx);
+        }
+
+        const result = new BulkResultDto();
+        result.affected = updated.length;
+        return result;
+      }
+
+      @Delete('/bulk')
+      @ApiBadRequestResponse()
+      @ApiInternalServerErrorResponse()
+      @ApiBody({
+        required: false,
+        schema: {
+          type: 'object',
+          properties: {
+            ids: { type: 'array', items: { type: 'string' }, description: 'Records to delete, the query filters are used when omitted' },
+          },
+        },
+      })
+      @ApiResponse({
+        status: 200,
+        type: BulkResultDto,
+      })
+      async bulkDelete(
+        @Body<any>(Object) body: { ids?: unknown },
+        @Req() req: Request,
+        @Param() params: any,
+      ) {
+        const self = this as unknown as ICrudController<T>;
+        const filter = await resolveBulkFilter(req, params, body?.ids);
+
+        const ctx: CrudHookContext = { operation: 'bulkDelete', request: req, params };
+        const entities = await self.service.findAll(filter);
+        for (const entity of entities) {
+          await HookUtil.runBefore(options.hooks?.beforeDelete?.(entity, ctx), ctx);
+        }
+
+        const deleted = await self.service.deleteMany({ [primaryKey]: { $in: entities.map(entity => entity[primaryKey]) } } as FilterQuery<T>, ctx);
+        for (const entity of deleted) {
+          await options.hooks?.afterDelete?.(entity, ctx);
+        }
+
+        const result = new BulkResultDto();
+        result.affected = deleted.length;
+        return result;
+      }
+
       @Get(':id')
       @ApiNotFoundResponse()
       @ApiBadRequestResponse()
       @ApiInternalServerErrorResponse()
+      @ApiNotModifiedResponse()
+      @ApiHeader({ name: 'If-None-Match', required: false, description: 'Respond with 304 when the ETag still matches' })
       @ApiResponse({
         status: 200,
         type: options.entity,
@@ -342,21 +1024,90 @@ export function Crud<T extends AnyEntity, C = EntityData<T>, U = EntityData<T>>(
       async read(
         @Req() req: Request,
         @Param('id') id: string,
-        @Param() params: any
+        @Param() params: any,
+        @Res({ passthrough: true }) res: ExpressResponse,
       ) {
         const self = this as unknown as ICrudController<typeof options.entity['prototype']>;
-        const filter = options?.filter?.(req, params);
+        const filter = await resolveFilter(req, params);
+        const withDeleted = await SoftDeleteUtil.resolveWithDeleted(options.softDelete, req, params);
+        const populate = resolveInclude((req as any).query, readConfig?.populate);
+        const fields = resolveFields((req as any).query, [...(populate ?? []).map(path => path.split('.')[0]), ...versionProperty ? [versionProperty] : []]);
 
-        const result = await self.service.findOne({
-          ...filter ?? {},
-          [primaryKey]: parseId(id),
-        } as FilterQuery<T>);
+        const result = await self.service.findOne(QueryFilterUtil.combineFilters(filter, { [primaryKey]: parseId(id) }) as FilterQuery<T>, { withDeleted, fields: fields?.select, populate });
 
         if (!result) {
           throw new NotFoundException(`${EntityNameUtil.getName(options.entity.name)} not found`);
         }
 
-        return result;
+        // Without a version property the ETag is a hash of the record, which a sparse fieldset cannot produce
+        if (versionProperty || !fields?.select) {
+          const version = setEtag(res, result);
+          const ifNoneMatch = (req as any).headers?.['if-none-match'];
+          if (ifNoneMatch && EtagUtil.matches(ifNoneMatch, version)) {
+            res.status(304);
+            return;
+          }
+        }
+
+        return pickFields(await hideFields(req, result), fields);
+      }
+
+      @Get(':id/history')
+      @ApiNotFoundResponse()
+      @ApiBadRequestResponse()
+      @ApiInternalServerErrorResponse()
+      @ApiResponse({
+        status: 200,
+        type: [AuditEntryDto],
+      })
+      async history(
+        @Req() req: Request,
+        @Param('id') id: string,
+        @Param() params: any,
+      ) {
+        const self = this as unknown as ICrudController<typeof options.entity['prototype']>;
+        const filter = await resolveFilter(req, params);
+        const withDeleted = await SoftDeleteUtil.resolveWithDeleted(options.softDelete, req, params);
+
+        const result = await self.service.findOne(QueryFilterUtil.combineFilters(filter, { [primaryKey]: parseId(id) }) as FilterQuery<T>, { withDeleted });
+
+        if (!result) {
+          throw new NotFoundException(`${EntityNameUtil.getName(options.entity.name)} not found`);
+        }
+
+        const entries = await self.service.findHistory(result);
+        if (!options.fieldAccess) return entries;
+
+        // Leave out the changes of fields the caller may not read
+        const roles = await options.fieldAccess.roles(req, result);
+        const forbidden = FieldAccessUtil.getForbiddenFields(options.entity, roles, 'read');
+        return entries.map(entry => ({ ...entry, changes: entry.changes.filter(change => !forbidden.includes(change.field)) }));
+      }
+
+      @Post(':id/restore')
+      @ApiNotFoundResponse()
+      @ApiBadRequestResponse()
+      @ApiInternalServerErrorResponse()
+      @ApiResponse({
+        status: 200,
+        type: options.entity,
+      })
+      async restore(
+        @Req() req: Request,
+        @Param('id') id: string,
+        @Param() params: any,
+      ) {
+        const self = this as unknown as ICrudController<typeof options.entity['prototype']>;
+        const filter = await resolveFilter(req, params);
+
+        const ctx: CrudHookContext = { operation: 'restore', request: req, params };
+        const result = await self.service.restore(QueryFilterUtil.combineFilters(filter, { [primaryKey]: parseId(id) }) as FilterQuery<T>, ctx);
+
+        if (!result) {
+          throw new NotFoundException(`${EntityNameUtil.getName(options.entity.name)} not found`);
+        }
+
+        return await hideFields(req, result);
       }
 
 
@@ -364,6 +1115,8 @@ export function Crud<T extends AnyEntity, C = EntityData<T>, U = EntityData<T>>(
       @ApiNotFoundResponse()
       @ApiBadRequestResponse()
       @ApiInternalServerErrorResponse()
+      @ApiPreconditionFailedResponse()
+      @ApiHeader({ name: 'If-Match', required: false, description: 'Only delete when the ETag still matches' })
       @ApiResponse({
         status: 204,
       })
@@ -373,24 +1126,33 @@ export function Crud<T extends AnyEntity, C = EntityData<T>, U = EntityData<T>>(
         @Param() params: any,
       ) {
         const self = this as unknown as ICrudController<typeof options.entity['prototype']>;
-        const filter = options?.filter?.(req, params);
+        const filter = await resolveFilter(req, params);
 
-        const result = await self.service.findOne({
-          ...filter ?? {},
-          [primaryKey]: parseId(id),
-        } as FilterQuery<T>);
+        const result = await self.service.findOne(QueryFilterUtil.combineFilters(filter, { [primaryKey]: parseId(id) }) as FilterQuery<T>);
 
         if (!result) {
           throw new NotFoundException(`${EntityNameUtil.getName(options.entity.name)} not found`);
         }
-        await self.service.delete({ [primaryKey]: result[primaryKey] } as FilterQuery<T>);
+        checkIfMatch(req, result);
+
+        const ctx: CrudHookContext = { operation: 'delete', request: req, params };
+        await HookUtil.runBefore(options.hooks?.beforeDelete?.(result, ctx), ctx);
+
+        // The record may have been deleted since it was read
+        const deleted = await self.service.delete({ [primaryKey]: result[primaryKey] } as FilterQuery<T>, ctx);
+        if (!deleted) {
+          throw new NotFoundException(`${EntityNameUtil.getName(options.entity.name)} not found`);
+        }
+        await options.hooks?.afterDelete?.(result, ctx);
 
         return;
       }
-      @Patch(':id')
+      @replaceRoute
       @ApiNotFoundResponse()
       @ApiBadRequestResponse()
       @ApiInternalServerErrorResponse()
+      @ApiPreconditionFailedResponse()
+      @ApiHeader({ name: 'If-Match', required: false, description: 'Only update when the ETag still matches' })
       @ApiResponse({
         status: 200,
         type: options.entity,
@@ -400,63 +1162,97 @@ export function Crud<T extends AnyEntity, C = EntityData<T>, U = EntityData<T>>(
         @Req() req: Request,
         @Param('id') id: string,
         @Param() params: any,
+        @Res({ passthrough: true }) res: ExpressResponse,
       ) {
         const self = this as unknown as ICrudController<typeof options.entity['prototype']>;
-        const filter = options?.filter?.(req, params);
+        const filter = await resolveFilter(req, params);
 
-        const result = await self.service.findOne({
-          ...filter ?? {},
-          [primaryKey]: parseId(id),
-        } as FilterQuery<T>);
+        const result = await self.service.findOne(QueryFilterUtil.combineFilters(filter, { [primaryKey]: parseId(id) }) as FilterQuery<T>);
 
         if (!result) {
           throw new NotFoundException(`${EntityNameUtil.getName(options.entity.name)} not found`);
         }
 
-        return await self.service.update({ [primaryKey]: result[primaryKey] } as FilterQuery<T>, body as any);
+        await enforceFieldWrite(req, body as object, result);
+        const expectedVersion = checkIfMatch(req, result);
+        if (standardMethods) {
+          await resetMissingFields(req, body as object, result);
+          Object.assign(body as object, await resolvePersist(req, params));
+        }
+        await pinScope(req, body as object, params);
+
+        const ctx: CrudHookContext = { operation: 'replace', request: req, params };
+        await HookUtil.runBefore(options.hooks?.beforeUpdate?.(result, body, ctx), ctx);
+
+        const updated = await self.service.update({ [primaryKey]: result[primaryKey] } as FilterQuery<T>, body as any, { expectedVersion }, ctx);
+        await options.hooks?.afterUpdate?.(updated, ctx);
+        setEtag(res, updated);
+        return await hideFields(req, updated);
       }
 
-      @Put(':id')
+      @updateRoute
       @ApiNotFoundResponse()
       @ApiBadRequestResponse()
       @ApiInternalServerErrorResponse()
+      @ApiPreconditionFailedResponse()
+      @ApiHeader({ name: 'If-Match', required: false, description: 'Only update when the ETag still matches' })
       @ApiResponse({
         status: 200,
         type: options.entity,
       })
       async update(
-        @Body(options.updateDto) body: U,
+        @Body<any>(standardMethods ? Object : options.updateDto) body: U,
         @Req() req: Request,
         @Param('id') id: string,
         @Param() params: any,
+        @Res({ passthrough: true }) res: ExpressResponse,
       ) {
         const self = this as unknown as ICrudController<typeof options.entity['prototype']>;
-        const filter = options?.filter?.(req, params);
+        const filter = await resolveFilter(req, params);
 
-        const result = await self.service.findOne({
-          ...filter ?? {},
-          [primaryKey]: parseId(id),
-        } as FilterQuery<T>);
+        const result = await self.service.findOne(QueryFilterUtil.combineFilters(filter, { [primaryKey]: parseId(id) }) as FilterQuery<T>);
 
         if (!result) {
           throw new NotFoundException(`${EntityNameUtil.getName(options.entity.name)} not found`);
         }
         let toUpdateBody = {};
-        Object.assign(toUpdateBody, body);
+        if (standardMethods) {
+          const { contentType, patch } = await PatchUtil.readRequest(req as any);
+          const changes = PatchUtil.apply(await hideFields(req, result), options.entity, contentType, patch);
+          toUpdateBody = await PatchUtil.validate(changes, options.updateDto!) as object;
+        } else {
+          Object.assign(toUpdateBody, body);
+        }
         for(const key in toUpdateBody) {
           if(toUpdateBody[key] === undefined) {
             delete toUpdateBody[key];
           }
         }
+        await enforceFieldWrite(req, toUpdateBody, result);
+        await pinScope(req, toUpdateBody, params);
+        const expectedVersion = checkIfMatch(req, result);
+
+        const ctx: CrudHookContext = { operation: 'update', request: req, params };
+        await HookUtil.runBefore(options.hooks?.beforeUpdate?.(result, toUpdateBody as U, ctx), ctx);
 
-        return await self.service.update({ [primaryKey]: result[primaryKey] } as FilterQuery<T>, toUpdateBody as any);
+        const updated = await self.service.update({ [primaryKey]: result[primaryKey] } as FilterQuery<T>, toUpdateBody as any, { expectedVersion }, ctx);
+        await options.hooks?.afterUpdate?.(updated, ctx);
+        setEtag(res, updated);
+        return await hideFields(req, updated);
+      }
+    }
+
+    for (const [relation, relationOptions] of Object.entries(options.operations?.relations ?? {})) {
+      if (relationOptions) {
+        defineRelationRoutes(CrudHost.prototype, relation, typeof relationOptions === 'object' ? relationOptions : {});
       }
     }
 
     const methods = Object.getOwnPropertyNames(CrudHost.prototype).filter(method => method !== 'constructor');
 
     // -- API PARAM INJECTION --
-    ApiPropertyUtil.processApiParams(target);
+    const paramOptions = options.nested ? { [options.nested.param]: NestedUtil.getApiParam(options.nested) } : {};
+    ApiPropertyUtil.processApiParams(target, paramOptions);
 
 
     // -- API PARAM INJECTION FOR CRUD HOST --
@@ -473,7 +1269,7 @@ export function Crud<T extends AnyEntity, C = EntityData<T>, U = EntityData<T>>(
     }
 
     for (const param of params) {
-      const apiParamDecorator = ApiParam({ name: param, type: 'string' });
+      const apiParamDecorator = ApiParam({ name: param, type: 'string', ...paramOptions[param] } as ApiParamOptions);
       for (const method of methods) {
         const descriptor = Object.getOwnPropertyDescriptor(CrudHost.prototype, method);
         if (descriptor) {
@@ -485,7 +1281,10 @@ export function Crud<T extends AnyEntity, C = EntityData<T>, U = EntityData<T>>(
 
     // -- API QUERY INJECTION FOR FILTERS --
     if (options.operations?.query && typeof options.operations.query === 'object' && options.operations.query.filter) {
-      const filterParams = QueryFilterUtil.getSwaggerQueryParams(options.entity, options.operations.query.filter);
+      const filterParams = [
+        ...QueryFilterUtil.getSwaggerQueryParams(options.entity, options.operations.query.filter),
+        QueryFilterUtil.getSwaggerStructuredFilterParam(),
+      ];
       for (const param of filterParams) {
         const apiQueryDecorator = ApiQuery(param);
         
@@ -502,10 +1301,99 @@ export function Crud<T extends AnyEntity, C = EntityData<T>, U = EntityData<T>>(
           apiQueryDecorator(CrudHost.prototype, 'export', exportDescriptor);
           Object.defineProperty(CrudHost.prototype, 'export', exportDescriptor);
         }
+
+        // Apply to the bulk methods, which select records with the same filters
+        for (const method of ['bulkUpdate', 'bulkDelete']) {
+          const descriptor = Object.getOwnPropertyDescriptor(CrudHost.prototype, method);
+          if (descriptor) {
+            apiQueryDecorator(CrudHost.prototype, method, descriptor);
+            Object.defineProperty(CrudHost.prototype, method, descriptor);
+          }
+        }
       }
     }
 
-    
+    // -- API QUERY INJECTION FOR SPARSE FIELDSETS --
+    const fieldsQueryDecorator = ApiQuery(QueryFilterUtil.getSwaggerFieldsParam(options.entity));
+    for (const method of ['query', 'read', 'export']) {
+      const descriptor = Object.getOwnPropertyDescriptor(CrudHost.prototype, method);
+      if (descriptor) {
+        fieldsQueryDecorator(CrudHost.prototype, method, descriptor);
+        Object.defineProperty(CrudHost.prototype, method, descriptor);
+      }
+    }
+
+    // -- API QUERY INJECTION FOR RELATION POPULATION --
+    const includeTargets: [string, string[] | undefined][] = [
+      ['query', queryConfig?.populate],
+      ['export', queryConfig?.populate],
+      ['read', readConfig?.populate],
+    ];
+    for (const [method, populate] of includeTargets) {
+      const descriptor = Object.getOwnPropertyDescriptor(CrudHost.prototype, method);
+      if (descriptor && populate?.length) {
+        ApiQuery(QueryFilterUtil.getSwaggerIncludeParam(options.entity, populate))(CrudHost.prototype, method, descriptor);
+        Object.defineProperty(CrudHost.prototype, method, descriptor);
+      }
+    }
+
+    // -- API QUERY INJECTION FOR SEARCH --
+    if (queryConfig?.search) {
+      const apiQueryDecorator = ApiQuery(QueryFilterUtil.getSwaggerSearchParam(options.entity, queryConfig.search));
+
+      for (const method of ['query', 'export', 'bulkUpdate', 'bulkDelete']) {
+        const descriptor = Object.getOwnPropertyDescriptor(CrudHost.prototype, method);
+        if (descriptor) {
+          apiQueryDecorator(CrudHost.prototype, method, descriptor);
+          Object.defineProperty(CrudHost.prototype, method, descriptor);
+        }
+      }
+    }
+
+    // -- API QUERY INJECTION FOR SORTING --
+    if (queryConfig?.sortable) {
+      const apiQueryDecorator = ApiQuery(QueryFilterUtil.getSwaggerSortParam(options.entity, queryConfig.sortable));
+
+      for (const method of ['query', 'export']) {
+        const descriptor = Object.getOwnPropertyDescriptor(CrudHost.prototype, method);
+        if (descriptor) {
+          apiQueryDecorator(CrudHost.prototype, method, descriptor);
+          Object.defineProperty(CrudHost.prototype, method, descriptor);
+        }
+      }
+    }
+
+    // -- API QUERY INJECTION FOR SOFT DELETE --
+    if (options.softDelete) {
+      const apiQueryDecorator = ApiQuery({
+        name: 'withDeleted',
+        type: 'boolean',
+        required: false,
+        description: 'Include soft-deleted records',
+      });
+
+      for (const method of ['query', 'export', 'read', 'history']) {
+        const descriptor = Object.getOwnPropertyDescriptor(CrudHost.prototype, method);
+        if (descriptor) {
+          apiQueryDecorator(CrudHost.prototype, method, descriptor);
+          Object.defineProperty(CrudHost.prototype, method, descriptor);
+        }
+      }
+    }
+
+    // -- DECORATOR INJECTION --
+    for (const method of methods) {
+      const operation = options.operations?.[method as Exclude<keyof NonNullable<typeof options.operations>, 'relations'>];
+      const decorators = [
+        ...(options.decorators ?? []),
+        ...(typeof operation === 'object' ? operation.decorators ?? [] : []),
+      ];
+      const descriptor = Object.getOwnPropertyDescriptor(CrudHost.prototype, method);
+      if (descriptor && decorators.length > 0) {
+        applyDecorators(...decorators)(CrudHost.prototype, method, descriptor);
+        Object.defineProperty(CrudHost.prototype, method, descriptor);
+      }
+    }
 
     if (options.operations?.create === false) {
       delete (CrudHost.prototype as any).create;
@@ -519,18 +1407,30 @@ export function Crud<T extends AnyEntity, C = EntityData<T>, U = EntityData<T>>(
     if (options.operations?.query === false) {
       delete (CrudHost.prototype as any).query;
     }
-    if (options.operations?.import !== true) {
+    if (!options.operations?.import) {
       delete (CrudHost.prototype as any).import;
     }
-    if (options.operations?.export !== true) {
+    if (!options.operations?.export) {
       delete (CrudHost.prototype as any).export;
     }
-    if (options.operations?.delete !== true) {
+    if (!options.operations?.delete) {
       delete (CrudHost.prototype as any).delete;
     }
-    if (options.operations?.replace !== true) {
+    if (!options.operations?.replace) {
       delete (CrudHost.prototype as any).replace;
     }
+    if (!options.operations?.bulkUpdate) {
+      delete (CrudHost.prototype as any).bulkUpdate;
+    }
+    if (!options.operations?.bulkDelete) {
+      delete (CrudHost.prototype as any).bulkDelete;
+    }
+    if (!options.operations?.history) {
+      delete (CrudHost.prototype as any).history;
+    }
+    if (!options.softDelete || options.operations?.restore === false) {
+      delete (CrudHost.prototype as any).restore;
+    }
 
     // -- METADATA INJECTION ---
     // Inject the metadata for the DTOs into the prototype
@@ -552,5 +1452,20 @@ export function Crud<T extends AnyEntity, C = EntityData<T>, U = EntityData<T>>(
     // 3. Make target inherit from CrudHost
     // Target -> CrudHost -> OriginalParent
     Object.setPrototypeOf(target.prototype, CrudHost.prototype);
+
+    // 4. The routes rely on the service to soft delete and hide deleted records, fail at boot when it does not
+    if (options.softDelete) {
+      const onModuleInit = target.prototype.onModuleInit;
+      Object.defineProperty(target.prototype, 'onModuleInit', {
+        value: function (this: ICrudController<T>, ...args: unknown[]) {
+          if (this.service.softDelete?.field !== options.softDelete!.field) {
+            throw new Error(`${target.name} soft deletes with ${options.softDelete!.field}, but its service is not configured with softDelete: { field: '${options.softDelete!.field}' }`);
+          }
+          return onModuleInit?.apply(this, args);
+        },
+        writable: true,
+        configurable: true,
+      });
+    }
   };
 }
@@ -0,0 +1,24 @@
+export const FIELD_ACCESS_METADATA_KEY = 'custom:field_access';
+
+export interface FieldAccessOptions {
+  /**
+   * Roles allowed to see the field in responses, everyone when omitted
+   */
+  read?: string[];
+  /**
+   * Roles allowed to set the field through create, update and replace, everyone when omitted
+   */
+  write?: string[];
+}
+
+/**
+ * Restrict reading and writing a field to the given roles.
+ * Enforced by the generated CRUD routes when `fieldAccess` is configured in the Crud options.
+ */
+export function FieldAccess(options: FieldAccessOptions): PropertyDecorator {
+  return (target: Object, propertyKey: string | symbol) => {
+    const rules = { ...(Reflect.getMetadata(FIELD_ACCESS_METADATA_KEY, target) || {}) };
+    rules[propertyKey] = options;
+    Reflect.defineMetadata(FIELD_ACCESS_METADATA_KEY, rules, target);
+  };
+}
@@ -8,6 +8,7 @@ import {
   NotFoundException,
   applyDecorators,
   BadRequestException,
+  ForbiddenException,
   SerializeOptions
 } from '@nestjs/common';
 import { Observable } from 'rxjs';
@@ -17,6 +18,10 @@ import { EntityManager, FilterQuery } from '@mikro-orm/core';
 import { ObjectId as MongoObjectId } from 'mongodb';
 import { ObjectId } from '@mikro-orm/mongodb';
 import { EntityNameUtil } from '../utils/entity-name.util';
+import { SoftDeleteUtil } from '../utils/soft-delete.util';
+import { TenantUtil } from '../utils/tenant.util';
+import { NestedUtil } from '../utils/nested.util';
+import { QueryFilterUtil } from '../utils/query-filter.util';
 
 @Injectable()
 export class CrudEntityInterceptor implements NestInterceptor {
@@ -110,12 +115,27 @@ export class CrudEntityInterceptor implements NestInterceptor {
       filter = await options.filter(req, params) || {};
     }
 
+    // Restrict to the parent of a nested resource
+    if (options.nested) {
+      filter = NestedUtil.scope(filter, options.nested, params);
+    }
+
+    // Restrict to the tenant of the request
+    if (options.tenant) {
+      const tenant = TenantUtil.getTenant() ?? await options.tenant.resolve(req);
+      if (tenant === undefined || tenant === null) {
+        throw new ForbiddenException('No tenant could be resolved for this request');
+      }
+      filter = QueryFilterUtil.combineFilters(filter, { [options.tenant.field]: tenant });
+    }
+
+    // Exclude soft-deleted records unless explicitly requested
+    const withDeleted = await SoftDeleteUtil.resolveWithDeleted(options.softDelete, req, params);
+
     // Fetch Entity
     const repo = this.em.getRepository(options.entity);
-    const entity = await repo.findOne({
-      ...filter,
-      [primaryKey]: parsedId
-    } as FilterQuery<any>);
+    const entity = await repo.findOne(SoftDeleteUtil.excludeDeleted(
+      QueryFilterUtil.combineFilters(filter, { [primaryKey]: parsedId }) as FilterQuery<any>, options.softDelete, withDeleted));
 
     if (!entity) {
       throw new NotFoundException(`${EntityNameUtil.getName(options.entity.name)} not found`);
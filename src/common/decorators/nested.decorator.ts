@@ -0,0 +1,45 @@
+import {
+  Injectable,
+  NestInterceptor,
+  ExecutionContext,
+  CallHandler,
+  createParamDecorator,
+} from '@nestjs/common';
+import { EntityManager } from '@mikro-orm/core';
+import { Observable } from 'rxjs';
+import { CRUD_OPTIONS_METADATA, NESTED_PARENT_KEY } from '../constants';
+import { CrudOptions } from '../interfaces/crud-options.interface';
+import { NestedUtil } from '../utils/nested.util';
+
+/**
+ * Loads the parent of a nested resource with the `nested` Crud option and 404s when it is missing or not visible,
+ * within the tenant of the request when the `tenant` option is set.
+ * Applied by `@Crud` to the whole controller, so custom routes are checked as well.
+ */
+@Injectable()
+export class CrudNestedInterceptor implements NestInterceptor {
+  constructor(private readonly em: EntityManager) { }
+
+  async intercept(context: ExecutionContext, next: CallHandler): Promise<Observable<any>> {
+    const options: CrudOptions<any> = Reflect.getMetadata(CRUD_OPTIONS_METADATA, context.getClass());
+
+    if (!options?.nested) {
+      return next.handle();
+    }
+
+    const req = context.switchToHttp().getRequest();
+    req[NESTED_PARENT_KEY] = await NestedUtil.findParent(this.em, options.nested, req, req.params, options.tenant);
+
+    return next.handle();
+  }
+}
+
+/**
+ * Parameter Decorator to retrieve the parent of a nested resource.
+ */
+export const NestedParent = createParamDecorator(
+  (data: unknown, ctx: ExecutionContext) => {
+    const request = ctx.switchToHttp().getRequest();
+    return request[NESTED_PARENT_KEY];
+  },
+);
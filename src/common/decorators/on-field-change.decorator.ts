@@ -0,0 +1,22 @@
+import { Type } from '@nestjs/common';
+import { OnEvent } from '@nestjs/event-emitter';
+import { CRUDEventUpdate } from '../base.event';
+import { EntityNameUtil } from '../utils/entity-name.util';
+
+/**
+ * Listen to the `<slug>.updated` event of the entity, the method is only called when the given field changed.
+ * The change is passed as second argument, e.g. `onStatus(event: CRUDEventUpdate<Invoice>, change: CRUDEventChange)`.
+ */
+export function OnFieldChange<T>(entity: Type<T>, field: keyof T & string, options?: Parameters<typeof OnEvent>[1]): MethodDecorator {
+  return (target: Object, propertyKey: string | symbol, descriptor: PropertyDescriptor) => {
+    const listener = descriptor.value;
+    descriptor.value = function (event: CRUDEventUpdate<T>) {
+      const change = event.getChange(field);
+      if (!change) return;
+      return listener.call(this, event, change);
+    };
+    Object.defineProperty(descriptor.value, 'name', { value: listener.name });
+    OnEvent(`${EntityNameUtil.classToSlug(entity)}.updated`, options)(target, propertyKey, descriptor);
+    return descriptor;
+  };
+}
@@ -0,0 +1,45 @@
+import {
+  Injectable,
+  NestInterceptor,
+  ExecutionContext,
+  CallHandler,
+  createParamDecorator,
+  ForbiddenException,
+} from '@nestjs/common';
+import { Observable } from 'rxjs';
+import { CRUD_OPTIONS_METADATA } from '../constants';
+import { CrudOptions } from '../interfaces/crud-options.interface';
+import { TenantUtil } from '../utils/tenant.util';
+
+/**
+ * Resolves the tenant of the request with the `tenant` Crud option and handles the request in its tenant context.
+ * Applied by `@Crud` to the whole controller, so custom routes are scoped as well.
+ */
+@Injectable()
+export class CrudTenantInterceptor implements NestInterceptor {
+  async intercept(context: ExecutionContext, next: CallHandler): Promise<Observable<any>> {
+    const options: CrudOptions<any> = Reflect.getMetadata(CRUD_OPTIONS_METADATA, context.getClass());
+
+    if (!options?.tenant) {
+      return next.handle();
+    }
+
+    const req = context.switchToHttp().getRequest();
+    const tenant = await options.tenant.resolve(req);
+    if (tenant === undefined || tenant === null) {
+      throw new ForbiddenException('No tenant could be resolved for this request');
+    }
+
+    // Subscribe inside the context, the handler only runs once the observable is subscribed to
+    return new Observable(subscriber => TenantUtil.run(tenant, () => next.handle().subscribe(subscriber)));
+  }
+}
+
+/**
+ * Parameter Decorator to retrieve the tenant of the current request.
+ */
+export const CurrentTenant = createParamDecorator(
+  (data: unknown, ctx: ExecutionContext) => {
+    return TenantUtil.getTenant();
+  },
+);
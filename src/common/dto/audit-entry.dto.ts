@@ -0,0 +1,48 @@
+import { ApiProperty } from "@nestjs/swagger";
+import { Expose } from "class-transformer";
+import { AuditAction, AuditChange, AuditEntry } from "../interfaces/audit.interface";
+import { CrudOperation } from "../interfaces/crud-hooks.interface";
+
+export class AuditChangeDto implements AuditChange {
+    @Expose()
+    @ApiProperty({ description: 'The changed property', example: 'name' })
+    field: string;
+
+    @Expose()
+    @ApiProperty({ description: 'Value before the change', required: false })
+    before?: any;
+
+    @Expose()
+    @ApiProperty({ description: 'Value after the change', required: false })
+    after?: any;
+}
+
+export class AuditEntryDto implements AuditEntry {
+    @Expose()
+    @ApiProperty()
+    entityName: string;
+
+    @Expose()
+    @ApiProperty()
+    entityId: string;
+
+    @Expose()
+    @ApiProperty({ enum: ['create', 'update', 'delete', 'restore'] })
+    action: AuditAction;
+
+    @Expose()
+    @ApiProperty({ required: false, description: 'The CRUD operation that caused the change' })
+    operation?: CrudOperation;
+
+    @Expose()
+    @ApiProperty({ required: false, description: 'Who made the change' })
+    actor?: string;
+
+    @Expose()
+    @ApiProperty({ type: [AuditChangeDto] })
+    changes: AuditChangeDto[];
+
+    @Expose()
+    @ApiProperty()
+    createdAt: Date;
+}
@@ -0,0 +1,8 @@
+import { ApiProperty } from "@nestjs/swagger";
+import { Expose } from "class-transformer";
+
+export class BulkResultDto {
+    @Expose()
+    @ApiProperty({ description: 'Number of records affected by the operation', example: 0 })
+    affected: number;
+}
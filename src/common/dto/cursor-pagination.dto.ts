@@ -0,0 +1,15 @@
+import { ApiProperty } from "@nestjs/swagger";
+import { Expose } from "class-transformer";
+
+export class CursorPaginationDto<T> {
+    @Expose()
+    @ApiProperty({ description: 'Limit number', example: 50 })
+    limit: number;
+
+    @Expose()
+    @ApiProperty({ description: 'Cursor to fetch the next page, null when there are no more records', type: String, nullable: true, example: 'WzEsIjY1ZjEiXQ' })
+    nextCursor: string | null;
+
+    @Expose()
+    data: T[];
+}
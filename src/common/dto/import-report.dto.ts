@@ -0,0 +1,29 @@
+import { ApiProperty } from "@nestjs/swagger";
+import { Expose } from "class-transformer";
+import { ImportFailure, ImportReport } from "../interfaces/import-report.interface";
+
+export class ImportFailureDto implements ImportFailure {
+    @Expose()
+    @ApiProperty({ description: 'Index of the row in the imported data', example: 0 })
+    index: number;
+
+    @Expose()
+    @ApiProperty({ description: 'Reasons the row could not be imported', type: [String] })
+    errors: string[];
+}
+
+export class ImportReportDto<T> implements ImportReport<T> {
+    @Expose()
+    created: T[];
+
+    @Expose()
+    updated?: T[];
+
+    @Expose()
+    @ApiProperty({ description: 'Number of matched records that did not change', required: false, example: 0 })
+    unchanged?: number;
+
+    @Expose()
+    @ApiProperty({ type: [ImportFailureDto] })
+    failed: ImportFailureDto[];
+}
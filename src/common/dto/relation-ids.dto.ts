@@ -0,0 +1,10 @@
+import { ApiProperty } from "@nestjs/swagger";
+import { Expose } from "class-transformer";
+import { IsArray } from "class-validator";
+
+export class RelationIdsDto {
+    @Expose()
+    @IsArray()
+    @ApiProperty({ description: 'Ids of the related records', type: [String], example: ['507f1f77bcf86cd799439011'] })
+    ids: (string | number)[];
+}
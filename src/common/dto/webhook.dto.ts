@@ -0,0 +1,91 @@
+import { ApiProperty, PartialType } from "@nestjs/swagger";
+import { Expose } from "class-transformer";
+import { ArrayNotEmpty, IsArray, IsBoolean, IsIn, IsNotEmpty, IsOptional, IsString, IsUrl, MinLength } from "class-validator";
+import { CRUDEventType } from "../base.event";
+import { WebhookAttempt } from "../interfaces/webhook.interface";
+import { WebhookDeliveryStatus } from "../entities/webhook-delivery.entity";
+
+const EVENT_TYPES: CRUDEventType[] = ['created', 'updated', 'deleted', 'restored'];
+
+export class CreateWebhookSubscriptionDto {
+    @Expose()
+    // Hosts without a TLD are only accepted when allowed by the `allowedHosts` option, checked by the service
+    @IsUrl({ protocols: ['http', 'https'], require_protocol: true, require_tld: false })
+    @ApiProperty({ example: 'https://example.com/webhooks/orders', description: 'An https URL of a public host' })
+    url: string;
+
+    @Expose()
+    @IsString()
+    @IsNotEmpty()
+    @ApiProperty({ description: 'Slug of an entity registered for webhooks', example: 'sales-order' })
+    entity: string;
+
+    @Expose()
+    @IsArray()
+    @ArrayNotEmpty()
+    @IsIn(EVENT_TYPES, { each: true })
+    @ApiProperty({ enum: EVENT_TYPES, isArray: true })
+    events: CRUDEventType[];
+
+    @Expose()
+    @IsString()
+    @MinLength(16)
+    @ApiProperty({ description: 'Key of the HMAC-SHA256 signature sent in the X-Webhook-Signature header', writeOnly: true })
+    secret: string;
+
+    @Expose()
+    @IsOptional()
+    @IsBoolean()
+    @ApiProperty({ required: false, default: true })
+    active?: boolean;
+}
+
+export class UpdateWebhookSubscriptionDto extends PartialType(CreateWebhookSubscriptionDto) {}
+
+export class WebhookAttemptDto implements WebhookAttempt {
+    @Expose()
+    @ApiProperty()
+    attemptedAt: Date;
+
+    @Expose()
+    @ApiProperty({ required: false, description: 'HTTP status of the response' })
+    statusCode?: number;
+
+    @Expose()
+    @ApiProperty({ required: false })
+    error?: string;
+
+    @Expose()
+    @ApiProperty({ description: 'Duration of the request in milliseconds' })
+    duration: number;
+}
+
+export class WebhookDeliveryDto {
+    @Expose()
+    @ApiProperty()
+    id: string;
+
+    @Expose()
+    @ApiProperty({ example: 'sales-order.updated' })
+    event: string;
+
+    @Expose()
+    @ApiProperty({ description: 'The posted JSON body' })
+    payload: any;
+
+    @Expose()
+    @ApiProperty({ enum: ['pending', 'delivered', 'failed'] })
+    status: WebhookDeliveryStatus;
+
+    @Expose()
+    @ApiProperty({ type: [WebhookAttemptDto] })
+    attempts: WebhookAttemptDto[];
+
+    @Expose()
+    @ApiProperty({ required: false })
+    deliveredAt?: Date;
+
+    @Expose()
+    @ApiProperty()
+    createdAt: Date;
+}
@@ -0,0 +1,38 @@
+import { Entity, Index, PrimaryKey, Property, SerializedPrimaryKey } from '@mikro-orm/core';
+import { ObjectId } from '@mikro-orm/mongodb';
+import { AuditAction, AuditChange, AuditEntry } from '../interfaces/audit.interface';
+import { CrudOperation } from '../interfaces/crud-hooks.interface';
+
+/**
+ * Storage of the `MikroOrmAuditStore`, add it to the entities of the MikroORM configuration
+ */
+@Entity({ collection: 'audit_entries' })
+@Index({ properties: ['entityName', 'entityId', 'createdAt'] })
+export class AuditEntryEntity implements AuditEntry {
+  @PrimaryKey()
+  _id: ObjectId;
+
+  @SerializedPrimaryKey()
+  id: string;
+
+  @Property()
+  entityName: string;
+
+  @Property()
+  entityId: string;
+
+  @Property()
+  action: AuditAction;
+
+  @Property({ nullable: true })
+  operation?: CrudOperation;
+
+  @Property({ nullable: true })
+  actor?: string;
+
+  @Property({ type: 'json' })
+  changes: AuditChange[];
+
+  @Property()
+  createdAt: Date = new Date();
+}
@@ -0,0 +1,64 @@
+import { Entity, Index, PrimaryKey, Property, SerializedPrimaryKey } from '@mikro-orm/core';
+import { ObjectId } from '@mikro-orm/mongodb';
+import { CRUDEventContext, CRUDEventType } from '../base.event';
+
+/**
+ * A CRUD event waiting to be delivered by the `OutboxRelay`, add it to the entities of the MikroORM configuration
+ */
+@Entity({ collection: 'outbox_messages' })
+@Index({ properties: ['processedAt', 'failedAt', 'availableAt'] })
+export class OutboxMessageEntity {
+  @PrimaryKey()
+  _id: ObjectId;
+
+  @SerializedPrimaryKey()
+  id: string;
+
+  /**
+   * The event name, `<slug>.<type>`
+   */
+  @Property()
+  event: string;
+
+  @Property()
+  type: CRUDEventType;
+
+  @Property()
+  entityName: string;
+
+  /**
+   * The serialized entity
+   */
+  @Property({ type: 'json' })
+  payload: Record<string, any>;
+
+  /**
+   * The previous state, changes, actor, correlation ID and source of the event
+   */
+  @Property({ type: 'json', nullable: true })
+  context?: CRUDEventContext;
+
+  @Property()
+  attempts: number = 0;
+
+  /**
+   * Earliest moment of the next delivery attempt, moved forward while a relay holds the message and after failures
+   */
+  @Property()
+  availableAt: Date = new Date();
+
+  @Property({ nullable: true })
+  processedAt?: Date;
+
+  /**
+   * Set when the message is given up on after too many attempts
+   */
+  @Property({ nullable: true })
+  failedAt?: Date;
+
+  @Property({ nullable: true })
+  lastError?: string;
+
+  @Property()
+  createdAt: Date = new Date();
+}
@@ -0,0 +1,49 @@
+import { Entity, Index, PrimaryKey, Property, SerializedPrimaryKey } from '@mikro-orm/core';
+import { ObjectId } from '@mikro-orm/mongodb';
+import { WebhookAttempt, WebhookPayload } from '../interfaces/webhook.interface';
+
+export type WebhookDeliveryStatus = 'pending' | 'delivered' | 'failed';
+
+/**
+ * An event sent, or still to be sent, to a webhook subscription, add it to the entities of the MikroORM configuration
+ */
+@Entity({ collection: 'webhook_deliveries' })
+@Index({ properties: ['status', 'availableAt'] })
+@Index({ properties: ['subscription', 'createdAt'] })
+export class WebhookDeliveryEntity {
+  @PrimaryKey()
+  _id: ObjectId;
+
+  @SerializedPrimaryKey()
+  id: string;
+
+  /**
+   * Id of the `WebhookSubscriptionEntity`
+   */
+  @Property()
+  subscription: string;
+
+  @Property()
+  event: string;
+
+  @Property({ type: 'json' })
+  payload: WebhookPayload;
+
+  @Property()
+  status: WebhookDeliveryStatus = 'pending';
+
+  @Property({ type: 'json' })
+  attempts: WebhookAttempt[] = [];
+
+  /**
+   * Earliest moment of the next attempt, moved forward while a dispatcher holds the delivery and after failures
+   */
+  @Property()
+  availableAt: Date = new Date();
+
+  @Property({ nullable: true })
+  deliveredAt?: Date;
+
+  @Property()
+  createdAt: Date = new Date();
+}
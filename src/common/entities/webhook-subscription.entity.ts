@@ -0,0 +1,60 @@
+import { Entity, Index, PrimaryKey, Property, SerializedPrimaryKey } from '@mikro-orm/core';
+import { ObjectId } from '@mikro-orm/mongodb';
+import { ApiProperty } from '@nestjs/swagger';
+import { Exclude, Expose } from 'class-transformer';
+import { CRUDEventType } from '../base.event';
+
+/**
+ * An endpoint receiving the CRUD events of an entity, add it to the entities of the MikroORM configuration
+ */
+@Entity({ collection: 'webhook_subscriptions' })
+@Index({ properties: ['entity', 'active'] })
+export class WebhookSubscriptionEntity {
+  @Exclude()
+  @PrimaryKey()
+  _id: ObjectId;
+
+  @Expose()
+  @ApiProperty({ readOnly: true })
+  @SerializedPrimaryKey()
+  id: string;
+
+  @Exclude()
+  @Property({ nullable: true })
+  tenant?: string;
+
+  @Expose()
+  @ApiProperty({ example: 'https://example.com/webhooks/orders' })
+  @Property()
+  url: string;
+
+  /**
+   * Slug of the entity, e.g. `sales-order`
+   */
+  @Expose()
+  @ApiProperty({ example: 'sales-order' })
+  @Property()
+  entity: string;
+
+  @Expose()
+  @ApiProperty({ enum: ['created', 'updated', 'deleted', 'restored'], isArray: true })
+  @Property()
+  events: CRUDEventType[];
+
+  /**
+   * Key of the HMAC signature, never returned by the API
+   */
+  @Exclude()
+  @Property()
+  secret: string;
+
+  @Expose()
+  @ApiProperty()
+  @Property()
+  active: boolean = true;
+
+  @Expose()
+  @ApiProperty({ readOnly: true })
+  @Property()
+  createdAt: Date = new Date();
+}
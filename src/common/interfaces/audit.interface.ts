@@ -0,0 +1,35 @@
+import { CrudOperation } from './crud-hooks.interface';
+import { CRUDEventChange } from '../base.event';
+
+export type AuditAction = 'create' | 'update' | 'delete' | 'restore';
+
+export type AuditChange = CRUDEventChange;
+
+export interface AuditEntry {
+  entityName: string;
+  entityId: string;
+  action: AuditAction;
+  /**
+   * The CRUD operation that caused the change, e.g. `import` or `bulkUpdate`
+   */
+  operation?: CrudOperation;
+  actor?: string;
+  changes: AuditChange[];
+  createdAt: Date;
+}
+
+/**
+ * Persists audit entries, see `MikroOrmAuditStore` for the default implementation
+ */
+export interface AuditStore {
+  record(entries: AuditEntry[]): Promise<void>;
+  findHistory(entityName: string, entityId: string): Promise<AuditEntry[]>;
+}
+
+export interface AuditOptions {
+  store: AuditStore;
+  /**
+   * Properties left out of the recorded changes, e.g. password hashes
+   */
+  exclude?: string[];
+}
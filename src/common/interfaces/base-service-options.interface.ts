@@ -0,0 +1,60 @@
+import { Request } from '@nestjs/common';
+import { FindOneOptions, FindOptions } from '@mikro-orm/core';
+import { AuditOptions } from './audit.interface';
+
+export interface SoftDeleteOptions {
+  /**
+   * The (nullable) property that is stamped with the deletion date instead of removing the record
+   */
+  field: string;
+}
+
+export interface TenantOptions {
+  /**
+   * The property holding the tenant of a record, e.g. `organization`
+   */
+  field: string;
+}
+
+export interface BaseServiceOptions {
+  softDelete?: SoftDeleteOptions;
+  /**
+   * Scope every call to the tenant of the current `TenantUtil.run` context
+   */
+  tenant?: TenantOptions;
+  /**
+   * Record the changes made through the service in an audit store
+   */
+  audit?: AuditOptions;
+  /**
+   * Identifies who made a change, from the request passed along by the Crud routes. Recorded in the audit trail
+   * and carried by the CRUD events.
+   */
+  actor?: (request: Request) => string | undefined | Promise<string | undefined>;
+  /**
+   * Store the CRUD events in the outbox within the transaction of the change instead of emitting them in-process,
+   * the `OutboxRelay` delivers them. Requires transactions (a MongoDB replica set).
+   */
+  outbox?: boolean;
+}
+
+export type ServiceFindOptions<T> = FindOptions<T> & {
+  /**
+   * Include soft-deleted records in the result
+   */
+  withDeleted?: boolean;
+};
+
+export type ServiceFindOneOptions<T extends object> = FindOneOptions<T> & {
+  /**
+   * Include soft-deleted records in the result
+   */
+  withDeleted?: boolean;
+};
+
+export interface ServiceUpdateOptions {
+  /**
+   * Version (or ETag value) the caller last read, the update is rejected with 412 when the record has changed since
+   */
+  expectedVersion?: string | number | Date;
+}
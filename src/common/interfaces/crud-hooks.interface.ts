@@ -0,0 +1,27 @@
+import { Request } from '@nestjs/common';
+
+export type CrudOperation = 'create' | 'import' | 'update' | 'replace' | 'delete' | 'restore' | 'bulkUpdate' | 'bulkDelete' | 'attach' | 'detach' | 'setRelation';
+
+export interface CrudHookContext {
+  operation: CrudOperation;
+  request?: Request;
+  params?: Record<string, string>;
+  /**
+   * Set by the service when the first event of the operation is emitted, shared by the following events
+   */
+  correlationId?: string;
+}
+
+/**
+ * Returning `false` from a `before*` hook vetoes the operation
+ */
+export type CrudHookResult = void | boolean | Promise<void | boolean>;
+
+export interface CrudHooks<T, C, U> {
+  beforeCreate?: (body: C, ctx: CrudHookContext) => CrudHookResult;
+  afterCreate?: (entity: T, ctx: CrudHookContext) => void | Promise<void>;
+  beforeUpdate?: (entity: T, patch: U | C, ctx: CrudHookContext) => CrudHookResult;
+  afterUpdate?: (entity: T, ctx: CrudHookContext) => void | Promise<void>;
+  beforeDelete?: (entity: T, ctx: CrudHookContext) => CrudHookResult;
+  afterDelete?: (entity: T, ctx: CrudHookContext) => void | Promise<void>;
+}
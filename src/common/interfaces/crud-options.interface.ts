@@ -1,6 +1,60 @@
 import { Type } from '@nestjs/common';
 import { EntityData, FilterQuery } from '@mikro-orm/core';
 import { Request } from '@nestjs/common';
+import { SoftDeleteOptions, TenantOptions } from './base-service-options.interface';
+import { CrudHooks } from './crud-hooks.interface';
+import { ImportLimits, ImportOptions } from './import-report.interface';
+
+export interface CrudSoftDeleteOptions extends SoftDeleteOptions {
+  /**
+   * Decides whether the caller may use `?withDeleted=true` to include soft-deleted records
+   */
+  withDeleted?: (request: Request, params: Record<string, string>) => boolean | Promise<boolean>;
+}
+
+export interface CrudTenantOptions extends TenantOptions {
+  /**
+   * Resolves the tenant of the request, e.g. `(req) => req.user.organization`. Requests without a tenant are rejected.
+   */
+  resolve: (request: Request) => unknown | Promise<unknown>;
+}
+
+export interface CrudNestedOptions<P = any> {
+  /**
+   * The parent entity, e.g. `Customer` for `customers/:customerId/invoices`
+   */
+  parent: Type<P>;
+  /**
+   * The route param holding the id of the parent, e.g. `customerId`
+   */
+  param: string;
+  /**
+   * The many-to-one property of the entity referencing the parent, e.g. `customer`
+   */
+  relation: string;
+  /**
+   * Scoping of the parent, like the `filter` option of its own controller. The routes 404 when the parent is not visible.
+   */
+  filter?: (request: Request, params: Record<string, string>) => FilterQuery<P> | Promise<FilterQuery<P>>;
+}
+
+export interface CrudOperationOptions {
+  /**
+   * Decorators applied to the generated route, e.g. guards, interceptors or `ApiBearerAuth()`
+   */
+  decorators?: MethodDecorator[];
+}
+
+export interface CrudRelationOptions extends CrudOperationOptions {
+  /**
+   * Scoping of the related records, like the `filter` option of their own controller
+   */
+  filter?: (request: Request, params: Record<string, string>) => FilterQuery<any> | Promise<FilterQuery<any>>;
+  /**
+   * Only generate the route listing the related records
+   */
+  readOnly?: boolean;
+}
 
 export interface CrudOptions<T, C = EntityData<T>, U = EntityData<T>> {
   tag?: string;
@@ -10,33 +64,109 @@ export interface CrudOptions<T, C = EntityData<T>, U = EntityData<T>> {
   updateDto?: Type<U>;
   defaultValues?: (request: Request, params: Record<string, string>) => EntityData<T> | Promise<EntityData<T>>;
   operations?: {
-    create?: {
-    } | false,
-    createMany?: {
-    } | false,
-    update?: {
-    } | false,
-    import?: {
-    } | false,
-    query?: {
-      pagination?: boolean;
+    create?: CrudOperationOptions | boolean,
+    createMany?: CrudOperationOptions | boolean,
+    update?: CrudOperationOptions | boolean,
+    import?: CrudOperationOptions & ImportOptions & ImportLimits | boolean,
+    query?: CrudOperationOptions & {
+      /**
+       * `true` for page based pagination (default), `'cursor'` for keyset pagination
+       */
+      pagination?: boolean | 'cursor';
       sort?: {
         field: string;
         order: 'ASC' | 'DESC';
       }[];
+      sortable?: string[];
+      /**
+       * Relation paths clients may populate with the `include` query parameter
+       */
+      populate?: string[];
+      search?: {
+        fields: string[];
+        /**
+         * Use the full-text index of the entity when it defines one, defaults to true
+         */
+        textIndex?: boolean;
+      };
       filter?: {
         [key: string]: boolean | ((value: any) => FilterQuery<T>);
       };
     } | false,
-    read?: {
-    } | false,
-    delete?: {
-    } | false,
-    replace?: {
-    } | false,
-    export?: {
-    } | false,
+    read?: CrudOperationOptions & {
+      /**
+       * Relation paths clients may populate with the `include` query parameter
+       */
+      populate?: string[];
+    } | boolean,
+    delete?: CrudOperationOptions | boolean,
+    replace?: CrudOperationOptions | boolean,
+    export?: CrudOperationOptions & {
+      /**
+       * Default CSV columns and their order, used when the request has no `fields` parameter
+       */
+      fields?: string[];
+      /**
+       * CSV header labels per field
+       */
+      labels?: { [key: string]: string };
+    } | boolean,
+    restore?: CrudOperationOptions | boolean,
+    /**
+     * `PATCH /bulk`, updates the records selected by `ids` or the query filters
+     */
+    bulkUpdate?: CrudOperationOptions | boolean,
+    /**
+     * `DELETE /bulk`, deletes the records selected by `ids` or the query filters
+     */
+    bulkDelete?: CrudOperationOptions | boolean,
+    /**
+     * `GET /:id/history`, the audit trail of a record, requires the `audit` option of the service
+     */
+    history?: CrudOperationOptions | boolean,
+    /**
+     * Routes per one-to-many or many-to-many relation: `GET /:id/<relation>` lists the related records,
+     * `POST /:id/<relation>` attaches, `PUT /:id/<relation>` sets and `DELETE /:id/<relation>/:relatedId` detaches them
+     */
+    relations?: {
+      [relation: string]: CrudRelationOptions | boolean;
+    },
   },
+  /**
+   * Decorators applied to every generated route
+   */
+  decorators?: MethodDecorator[];
   persist?: (request: Request, params: Record<string, string>) => EntityData<T> | Promise<EntityData<T>>;
   filter?: (request: Request, params: Record<string, string>) => FilterQuery<T> | Promise<FilterQuery<T>>;
+  /**
+   * Soft delete routes, the service must be created with the same `softDelete` option (checked at boot)
+   */
+  softDelete?: CrudSoftDeleteOptions;
+  /**
+   * Scope every route to the tenant of the request, in addition to `filter` and `persist`
+   */
+  tenant?: CrudTenantOptions;
+  /**
+   * Mount the routes under a parent record, every route is scoped to the parent and new records are assigned to it
+   */
+  nested?: CrudNestedOptions;
+  /**
+   * `'standard'` makes PUT a full replacement and PATCH a merge patch (RFC 7396) or JSON patch (RFC 6902).
+   * `'legacy'` (default) keeps PATCH as replacement with the create DTO and PUT as partial update.
+   */
+  methodSemantics?: 'legacy' | 'standard';
+  hooks?: CrudHooks<T, C, U>;
+  /**
+   * Enables the `@FieldAccess` rules of the entity for the generated routes
+   */
+  fieldAccess?: {
+    /**
+     * Roles of the caller, the entity is passed when the rules apply to an existing record
+     */
+    roles: (request: Request, entity?: T) => string[] | Promise<string[]>;
+    /**
+     * Reject the request with 403 (default) or silently drop forbidden fields from the body
+     */
+    forbiddenWrite?: 'reject' | 'strip';
+  };
 }
@@ -0,0 +1,72 @@
+import { EntityData, RequiredEntityData } from '@mikro-orm/core';
+import { CrudHookContext, CrudHookResult } from './crud-hooks.interface';
+
+export interface ImportOptions {
+  /**
+   * When true, a single failing row rolls back the whole import (all-or-nothing).
+   * When false, every row is persisted in its own transaction (best-effort).
+   */
+  atomic?: boolean;
+  /**
+   * Fields forming the natural key used to match existing records, which are updated instead of inserted.
+   * Soft-deleted records are not matched, a new record is inserted for them.
+   */
+  upsertBy?: string[];
+}
+
+/**
+ * Bounds of an import request, exceeding them rejects the request with 413 Payload Too Large
+ */
+export interface ImportLimits {
+  /**
+   * Maximum number of rows, defaults to 10000
+   */
+  maxRows?: number;
+  /**
+   * Maximum size in bytes of a CSV, NDJSON or uploaded file, defaults to 10 MiB
+   */
+  maxBytes?: number;
+  /**
+   * Rows persisted per batch of a non-atomic import, defaults to 500
+   */
+  batchSize?: number;
+}
+
+/**
+ * Hooks run per row once it is known whether the row is inserted or updates an existing record
+ */
+export interface ImportRowHooks<T> {
+  beforeCreate?: (data: RequiredEntityData<T>, ctx: CrudHookContext) => CrudHookResult;
+  beforeUpdate?: (entity: T, data: EntityData<T>, ctx: CrudHookContext) => CrudHookResult;
+}
+
+export interface ServiceImportOptions<T> extends ImportOptions {
+  hooks?: ImportRowHooks<T>;
+}
+
+export interface ImportFailure {
+  index: number;
+  errors: string[];
+}
+
+export interface ImportReport<T> {
+  created: T[];
+  updated?: T[];
+  unchanged?: number;
+  failed: ImportFailure[];
+}
+
+export interface UpsertReport<T> {
+  inserted: T[];
+  updated: T[];
+  unchanged: T[];
+}
+
+export interface UpsertRowResult<T> {
+  status: keyof UpsertReport<T>;
+  entity: T;
+  /**
+   * Snapshot of an updated record before the update
+   */
+  before?: EntityData<T>;
+}
@@ -0,0 +1,9 @@
+/**
+ * A single RFC 6902 JSON Patch operation
+ */
+export interface JsonPatchOperation {
+  op: 'add' | 'remove' | 'replace' | 'move' | 'copy' | 'test';
+  path: string;
+  from?: string;
+  value?: any;
+}
@@ -0,0 +1,36 @@
+/**
+ * Delivers outbox messages, e.g. to EventEmitter2 or a message broker. A rejected promise schedules a retry.
+ */
+export interface OutboxTransport {
+  dispatch(event: string, payload: any): Promise<void>;
+}
+
+export interface OutboxRelayOptions {
+  /**
+   * Milliseconds between polls when the outbox is drained, defaults to 1000
+   */
+  interval?: number;
+  /**
+   * Messages delivered per poll, defaults to 100
+   */
+  batchSize?: number;
+  /**
+   * Attempts before a message is marked as failed, defaults to 10
+   */
+  maxAttempts?: number;
+  /**
+   * Milliseconds a claimed message is hidden from other relays, defaults to 30000
+   */
+  lease?: number;
+  /**
+   * Milliseconds to wait before the next attempt, defaults to exponential backoff capped at 5 minutes
+   */
+  backoff?: (attempts: number) => number;
+}
+
+export interface OutboxModuleOptions extends OutboxRelayOptions {
+  /**
+   * Where the messages are delivered, defaults to the EventEmitter2 listeners
+   */
+  transport?: OutboxTransport;
+}
@@ -0,0 +1,104 @@
+import { Request, Type } from '@nestjs/common';
+import { CRUDEventChange, CRUDEventType } from '../base.event';
+import { WebhookSubscriptionEntity } from '../entities/webhook-subscription.entity';
+import { CrudOperation } from './crud-hooks.interface';
+
+/**
+ * The JSON body posted to a webhook subscription
+ */
+export interface WebhookPayload {
+  /**
+   * The event name, `<slug>.<type>`
+   */
+  event: string;
+  entity: string;
+  type: CRUDEventType;
+  /**
+   * The record serialized like the export route does, with `instanceToPlain`, without the fields the `@FieldAccess`
+   * read rules hide from the roles of the subscription
+   */
+  data: Record<string, any>;
+  /**
+   * The changed properties that are part of `data`
+   */
+  changes: CRUDEventChange[];
+  actor?: string;
+  correlationId?: string;
+  source?: CrudOperation;
+  occurredAt: string;
+}
+
+export interface WebhookAttempt {
+  attemptedAt: Date;
+  /**
+   * HTTP status of the response, undefined when no response was received
+   */
+  statusCode?: number;
+  error?: string;
+  duration: number;
+}
+
+export interface WebhookDispatcherOptions {
+  /**
+   * The entities whose CRUD events can be subscribed to, subscriptions to any other entity are rejected
+   */
+  entities: Type<any>[];
+  /**
+   * Roles of the subscription for the `@FieldAccess` read rules of the payload. Defaults to no roles, so every field
+   * with a read rule is left out.
+   */
+  roles?: (subscription: WebhookSubscriptionEntity) => string[] | Promise<string[]>;
+  /**
+   * Milliseconds between polls when no deliveries are pending, defaults to 1000
+   */
+  interval?: number;
+  /**
+   * Deliveries attempted per poll, defaults to 50
+   */
+  batchSize?: number;
+  /**
+   * Attempts before a delivery is marked as failed, defaults to 8
+   */
+  maxAttempts?: number;
+  /**
+   * Milliseconds a claimed delivery is hidden from other dispatchers, defaults to 30000
+   */
+  lease?: number;
+  /**
+   * Milliseconds to wait before the next attempt, defaults to exponential backoff capped at 1 hour
+   */
+  backoff?: (attempts: number) => number;
+  /**
+   * Milliseconds to wait for the subscriber to respond, defaults to 10000
+   */
+  timeout?: number;
+  /**
+   * Hosts that may receive webhooks although they are internal or use plain http, e.g. `['hooks.internal']`.
+   * Any other URL must use https and a public domain name that does not resolve to a private address.
+   */
+  allowedHosts?: string[];
+}
+
+export interface WebhookModuleOptions extends WebhookDispatcherOptions {
+  /**
+   * Path of the subscription management controller, defaults to `webhooks`
+   */
+  path?: string;
+  /**
+   * Decorators applied to the management routes, e.g. guards or `ApiBearerAuth()`
+   */
+  decorators?: MethodDecorator[];
+  /**
+   * Scope subscriptions to tenants. A subscription only receives the events of records of its own tenant.
+   */
+  tenant?: {
+    /**
+     * Resolves the tenant of the request managing the subscriptions
+     */
+    resolve: (request: Request) => unknown | Promise<unknown>;
+    /**
+     * The tenant property of the entities emitting the events, e.g. `organization`
+     */
+    field: string;
+  };
+}
@@ -0,0 +1,33 @@
+import { DynamicModule, Module } from '@nestjs/common';
+import { EntityManager } from '@mikro-orm/core';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { OutboxModuleOptions } from './interfaces/outbox.interface';
+import { EventEmitterOutboxTransport, OutboxRelay } from './outbox.relay';
+
+/**
+ * Runs the `OutboxRelay` of the services in outbox mode. Requires the MikroORM module, the EventEmitter module unless a
+ * `transport` is given, and the `OutboxMessageEntity` in the entities of the MikroORM configuration.
+ */
+@Module({})
+export class OutboxModule {
+  static forRoot(options: OutboxModuleOptions = {}): DynamicModule {
+    const { transport, ...relayOptions } = options;
+
+    return {
+      module: OutboxModule,
+      providers: [
+        {
+          provide: OutboxRelay,
+          useFactory: (em: EntityManager, eventEmitter?: EventEmitter2) => {
+            if (!transport && !eventEmitter) {
+              throw new Error('OutboxModule requires the EventEmitter module or a transport');
+            }
+            return new OutboxRelay(em, transport ?? new EventEmitterOutboxTransport(eventEmitter!), relayOptions);
+          },
+          inject: [EntityManager, { token: EventEmitter2, optional: true }],
+        },
+      ],
+      exports: [OutboxRelay],
+    };
+  }
+}
@@ -0,0 +1,93 @@
+import { EntityManager } from '@mikro-orm/core';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { createCrudEvent } from './base.event';
+import { OutboxMessageEntity } from './entities/outbox-message.entity';
+import { OutboxRelayOptions, OutboxTransport } from './interfaces/outbox.interface';
+import { Poller } from './poller';
+
+/**
+ * Delivers outbox messages to the in-process EventEmitter2 listeners, a throwing listener fails the delivery
+ */
+export class EventEmitterOutboxTransport implements OutboxTransport {
+
+  constructor(protected readonly eventEmitter: EventEmitter2) {}
+
+  async dispatch(event: string, payload: any) {
+    await this.eventEmitter.emitAsync(event, payload);
+  }
+}
+
+/**
+ * Delivers the CRUD events stored by services in outbox mode, import `OutboxModule.forRoot()` to start polling, or
+ * register it with a `useFactory` provider when the transport needs injected dependencies.
+ * A message is claimed with a lease, so several instances can run a relay, and is only marked as processed once the
+ * transport succeeded. Delivery is therefore at-least-once and listeners should be idempotent.
+ */
+export class OutboxRelay extends Poller {
+
+  protected readonly subject = 'the outbox';
+
+  constructor(
+    protected readonly em: EntityManager,
+    protected readonly transport: OutboxTransport,
+    protected readonly options: OutboxRelayOptions = {},
+  ) {
+    super();
+  }
+
+  protected get batchSize() {
+    return this.options.batchSize ?? 100;
+  }
+
+  protected get interval() {
+    return this.options.interval ?? 1000;
+  }
+
+  /**
+   * Deliver the next batch of available messages and return the number of messages handled
+   */
+  async processBatch(): Promise<number> {
+    const em = this.em.fork();
+    const maxAttempts = this.options.maxAttempts ?? 10;
+    const lease = this.options.lease ?? 30000;
+    const backoff = this.options.backoff ?? (attempts => Math.min(1000 * 2 ** attempts, 300000));
+
+    const messages = await em.find(OutboxMessageEntity, {
+      processedAt: null,
+      failedAt: null,
+      availableAt: { $lte: new Date() },
+    }, { orderBy: { createdAt: 'ASC' }, limit: this.batchSize });
+
+    for (const message of messages) {
+      // Another relay may have claimed the message since it was read
+      const claimed = await em.nativeUpdate(OutboxMessageEntity, { _id: message._id, availableAt: message.availableAt }, {
+        availableAt: new Date(Date.now() + lease),
+      });
+      if (claimed === 0) continue;
+
+      try {
+        await this.transport.dispatch(message.event, createCrudEvent(message.type, this.rebuildEntity(message), message.context));
+        await em.nativeUpdate(OutboxMessageEntity, { _id: message._id }, { processedAt: new Date() });
+      } catch (e) {
+        const attempts = message.attempts + 1;
+        await em.nativeUpdate(OutboxMessageEntity, { _id: message._id }, {
+          attempts,
+          lastError: e instanceof Error ? e.message : String(e),
+          ...attempts >= maxAttempts ? { failedAt: new Date() } : { availableAt: new Date(Date.now() + backoff(attempts)) },
+        });
+      }
+    }
+
+    return messages.length;
+  }
+
+  /**
+   * Rebuild the entity instance from the serialized payload, so listeners receive the same event as without outbox.
+   * The payload is returned as is when the entity is no longer known.
+   */
+  protected rebuildEntity(message: OutboxMessageEntity): any {
+    const em = this.em.fork();
+    const meta = em.getMetadata().find(message.entityName);
+    return meta ? em.merge(meta.class, message.payload, { convertCustomTypes: true }) : message.payload;
+  }
+}
@@ -0,0 +1,60 @@
+import { Logger, OnModuleDestroy, OnModuleInit } from '@nestjs/common';
+
+/**
+ * Runs `processBatch` in a loop from module init until destroy. A full batch is followed by the next one right away,
+ * otherwise the poller waits `interval` milliseconds.
+ */
+export abstract class Poller implements OnModuleInit, OnModuleDestroy {
+
+  protected readonly logger = new Logger(this.constructor.name);
+  private timer?: NodeJS.Timeout;
+  private running?: Promise<unknown>;
+  private stopped = true;
+
+  /**
+   * What is processed, used in the error logs, e.g. `the outbox`
+   */
+  protected abstract readonly subject: string;
+  protected abstract readonly batchSize: number;
+  protected abstract readonly interval: number;
+
+  /**
+   * Process the next batch and return the number of items handled
+   */
+  abstract processBatch(): Promise<number>;
+
+  onModuleInit() {
+    this.start();
+  }
+
+  async onModuleDestroy() {
+    await this.stop();
+  }
+
+  start() {
+    if (!this.stopped) return;
+    this.stopped = false;
+    this.schedule(0);
+  }
+
+  async stop() {
+    this.stopped = true;
+    clearTimeout(this.timer);
+    await this.running;
+  }
+
+  private schedule(delay: number) {
+    this.timer = setTimeout(() => {
+      this.running = this.processBatch().then(
+        // Keep going while there is a backlog
+        processed => processed === this.batchSize ? 0 : this.interval,
+        error => {
+          this.logger.error(`Failed to process ${this.subject}: ${error instanceof Error ? error.message : error}`);
+          return this.interval;
+        },
+      ).then(next => {
+        if (!this.stopped) this.schedule(next);
+      });
+    }, delay);
+  }
+}
@@ -1,10 +1,13 @@
-import { ApiParam, ApiProperty, ApiPropertyOptions } from "@nestjs/swagger";
+import { ApiParam, ApiParamOptions, ApiProperty, ApiPropertyOptions } from "@nestjs/swagger";
 import { ClassConstructor, Transform } from "class-transformer";
 import { ObjectId } from "mongodb";
 import { MetadataStorage } from "@mikro-orm/core";
 
 export class ApiPropertyUtil {
-    static processApiParams(target: any) {
+    /**
+     * Document the path params of the controller, as strings unless `paramOptions` describes them
+     */
+    static processApiParams(target: any, paramOptions: Record<string, Partial<ApiParamOptions>> = {}) {
         // Class Level Params
         const path = Reflect.getMetadata('path', target);
         const params: string[] = [];
@@ -20,7 +23,7 @@ export class ApiPropertyUtil {
         }
 
         for (const param of params) {
-            ApiParam({ name: param, type: 'string' })(target);
+            ApiParam({ name: param, type: 'string', ...paramOptions[param] } as ApiParamOptions)(target);
         }
 
         // Method Level Params
@@ -37,7 +40,7 @@ export class ApiPropertyUtil {
                     let match;
                     while ((match = regex.exec(pathStr)) !== null) {
                         const param = match[1];
-                        ApiParam({ name: param, type: 'string' })(target.prototype, method, descriptor);
+                        ApiParam({ name: param, type: 'string', ...paramOptions[param] } as ApiParamOptions)(target.prototype, method, descriptor);
                         Object.defineProperty(target.prototype, method, descriptor);
                     }
                 }
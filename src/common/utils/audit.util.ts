@@ -0,0 +1,28 @@
+import { AnyEntity, EntityData, EntityManager, wrap } from '@mikro-orm/core';
+import { AuditChange } from '../interfaces/audit.interface';
+
+export class AuditUtil {
+  /**
+   * The persistable state of the entity, as used by the unit of work to compute change sets
+   */
+  static snapshot<T extends AnyEntity>(em: EntityManager, entity: T): EntityData<T> {
+    return em.getComparator().prepareEntity(entity);
+  }
+
+  static getEntityId(entity: AnyEntity): string {
+    return String(wrap(entity, true).getSerializedPrimaryKey());
+  }
+
+  /**
+   * The changed fields between two snapshots, every field when the record was created or deleted
+   */
+  static getChanges<T>(em: EntityManager, entityName: string, before?: EntityData<T>, after?: EntityData<T>, exclude: string[] = []): AuditChange[] {
+    const fields = before && after
+      ? Object.keys(em.getComparator().diffEntities(entityName, before, after))
+      : Object.keys(before ?? after ?? {});
+
+    return fields
+      .filter(field => !exclude.includes(field))
+      .map(field => ({ field, before: before?.[field], after: after?.[field] }));
+  }
+}
@@ -0,0 +1,98 @@
+import { BadRequestException } from '@nestjs/common';
+import { ObjectId as MongoObjectId } from 'mongodb';
+
+type SortOrder = 'ASC' | 'DESC';
+
+/**
+ * Utility for keyset (cursor) pagination, cursors encode the sort key and primary key values of the last record
+ */
+export class CursorUtil {
+  /**
+   * Append the primary key to the sort order so every record has a unique position
+   */
+  static getKeysetOrder(orderBy: Record<string, string> | undefined, primaryKey: string): [string, SortOrder][] {
+    const order: [string, SortOrder][] = Object.entries(orderBy ?? {})
+      .map(([field, direction]) => [field, String(direction).toUpperCase().startsWith('DESC') ? 'DESC' : 'ASC']);
+
+    if (!order.some(([field]) => field === primaryKey)) {
+      order.push([primaryKey, 'ASC']);
+    }
+    return order;
+  }
+
+  static toOrderBy(order: [string, SortOrder][]): Record<string, SortOrder> {
+    return Object.fromEntries(order);
+  }
+
+  static encode(entity: any, order: [string, SortOrder][]): string {
+    const values = order.map(([field]) => this.serializeValue(entity[field]));
+    return Buffer.from(JSON.stringify(values)).toString('base64url');
+  }
+
+  static decode(cursor: string, order: [string, SortOrder][]): any[] {
+    let values: any;
+    try {
+      values = JSON.parse(Buffer.from(String(cursor), 'base64url').toString());
+    } catch (e) {
+      throw new BadRequestException('Invalid cursor');
+    }
+
+    if (!Array.isArray(values) || values.length !== order.length) {
+      throw new BadRequestException('Invalid cursor');
+    }
+    return values.map(value => this.deserializeValue(value));
+  }
+
+  /**
+   * Build the condition selecting the records positioned after the given values.
+   * MongoDB sorts null and missing values before any other value, so they come first in ascending and last in descending order.
+   */
+  static buildWhere(order: [string, SortOrder][], values: any[]): Record<string, any> {
+    const conditions: Record<string, any>[] = [];
+
+    for (let i = 0; i < order.length; i++) {
+      const prefix: Record<string, any> = {};
+      for (let j = 0; j < i; j++) {
+        prefix[order[j][0]] = values[j] ?? null;
+      }
+      const [field, direction] = order[i];
+      const value = values[i] ?? null;
+
+      if (value === null) {
+        // Nothing follows the null values in descending order
+        if (direction === 'ASC') {
+          conditions.push({ ...prefix, [field]: { $ne: null } });
+        }
+        continue;
+      }
+
+      conditions.push({ ...prefix, [field]: { [direction === 'DESC' ? '$lt' : '$gt']: value } });
+      if (direction === 'DESC') {
+        conditions.push({ ...prefix, [field]: null });
+      }
+    }
+
+    return conditions.length === 1 ? conditions[0] : { $or: conditions };
+  }
+
+  private static serializeValue(value: any): any {
+    if (value instanceof Date) return { $date: value.toISOString() };
+    if (value && typeof value === 'object' && typeof value.toHexString === 'function') return { $oid: value.toHexString() };
+    return value ?? null;
+  }
+
+  private static deserializeValue(value: any): any {
+    if (value && typeof value === 'object') {
+      if (typeof value.$date === 'string') {
+        const date = new Date(value.$date);
+        if (isNaN(date.getTime())) throw new BadRequestException('Invalid cursor');
+        return date;
+      }
+      if (typeof value.$oid === 'string' && MongoObjectId.isValid(value.$oid)) {
+        return new MongoObjectId(value.$oid);
+      }
+      throw new BadRequestException('Invalid cursor');
+    }
+    return value;
+  }
+}
@@ -87,6 +87,12 @@ export class DtoFactory {
                     if (prop.onCreate) excluded.add(prop.name);
                     if (prop.onUpdate) excluded.add(prop.name);
                     if (prop.version) excluded.add(prop.name);
+                    // the tenant is assigned from the request
+                    if (options.tenant?.field === prop.name) excluded.add(prop.name);
+                    // the parent of a nested resource is assigned from the route
+                    if (options.nested?.relation === prop.name) excluded.add(prop.name);
+                    // records are only deleted and restored through the delete and restore routes
+                    if (options.softDelete?.field === prop.name) excluded.add(prop.name);
 
                     if (Reflect.getMetadata(READONLY_METADATA_KEY, target.prototype, prop.name)) {
                         excluded.add(prop.name);
@@ -230,4 +236,12 @@ export class DtoFactory {
             }
         }
     }
+
+    /**
+     * Names of the properties a DTO validates, i.e. the properties a client can send
+     */
+    static getDtoProperties(dto: Type<any>): string[] {
+        const targetMetadatas = getMetadataStorage().getTargetValidationMetadatas(dto, '', false, false);
+        return [...new Set(targetMetadatas.map(meta => meta.propertyName).filter(Boolean))];
+    }
 }
@@ -0,0 +1,57 @@
+import { PreconditionFailedException, Type } from '@nestjs/common';
+import { AnyEntity, MetadataStorage, wrap } from '@mikro-orm/core';
+import { createHash } from 'crypto';
+
+export class EtagUtil {
+  /**
+   * Name of the `@Property({ version: true })` field of the entity, if any
+   */
+  static getVersionProperty(entity: Type<any>): string | undefined {
+    const meta = MetadataStorage.getMetadataFromDecorator(entity);
+    return Object.values(meta.properties).find(prop => prop.version)?.name as string | undefined;
+  }
+
+  /**
+   * Current version of a loaded entity: its version property when defined, otherwise a hash of its persisted state
+   */
+  static getVersion(entity: AnyEntity): string | undefined {
+    const wrapped = wrap(entity, true);
+    const versionProperty = wrapped.__meta.versionProperty;
+
+    if (versionProperty) {
+      return this.normalize(entity[versionProperty]);
+    }
+
+    if (!wrapped.__originalEntityData) return undefined;
+    return createHash('sha1').update(JSON.stringify(wrapped.__originalEntityData)).digest('base64url');
+  }
+
+  static toEtag(version: string) {
+    return `"${version}"`;
+  }
+
+  /**
+   * Check an `If-Match` / `If-None-Match` header against a version, `*` matches any existing record
+   */
+  static matches(header: string, version: string | undefined) {
+    const tags = header.split(',').map(tag => tag.trim()).filter(Boolean);
+    if (tags.includes('*')) return true;
+    if (version === undefined) return false;
+
+    return tags.some(tag => tag.replace(/^W\//, '').replace(/^"(.*)"$/, '$1') === version);
+  }
+
+  /**
+   * Throw a 412 when the entity no longer has the expected version
+   */
+  static assertVersion(entity: AnyEntity, expectedVersion: string | number | Date) {
+    if (this.getVersion(entity) !== this.normalize(expectedVersion)) {
+      throw new PreconditionFailedException('The record has been modified since it was read');
+    }
+  }
+
+  private static normalize(value: unknown): string | undefined {
+    if (value === undefined || value === null) return undefined;
+    return value instanceof Date ? String(value.getTime()) : String(value);
+  }
+}
@@ -0,0 +1,67 @@
+import { ForbiddenException, Type } from '@nestjs/common';
+import { FIELD_ACCESS_METADATA_KEY, FieldAccessOptions } from '../decorators/field-access.decorator';
+import { QueryFilterUtil } from './query-filter.util';
+
+export class FieldAccessUtil {
+  static getRules(entity: Type<any>): Record<string, FieldAccessOptions> {
+    return Reflect.getMetadata(FIELD_ACCESS_METADATA_KEY, entity.prototype) || {};
+  }
+
+  /**
+   * Get the fields the roles are not allowed to read or write
+   */
+  static getForbiddenFields(entity: Type<any>, roles: string[], access: keyof FieldAccessOptions): string[] {
+    return Object.entries(this.getRules(entity))
+      .filter(([, rule]) => rule[access] && !rule[access]!.some(role => roles.includes(role)))
+      .map(([field]) => field);
+  }
+
+  /**
+   * Reject (or strip) the fields of the body the roles are not allowed to write
+   */
+  static enforceWrite(entity: Type<any>, body: object, roles: string[], mode: 'reject' | 'strip' = 'reject') {
+    const forbidden = this.getForbiddenFields(entity, roles, 'write')
+      .filter(field => (body as any)[field] !== undefined);
+
+    if (forbidden.length === 0) return;
+
+    if (mode === 'reject') {
+      const { toExposed } = QueryFilterUtil.getExposedNameMap(entity);
+      throw new ForbiddenException(`Not allowed to write: ${forbidden.map(field => toExposed.get(field) || field).join(', ')}`);
+    }
+
+    for (const field of forbidden) {
+      delete (body as any)[field];
+    }
+  }
+
+  /**
+   * Return the entity with the fields the roles are not allowed to read hidden.
+   * A copy is returned so the managed entity is never modified.
+   */
+  static filterReadable<X extends object>(entity: Type<any>, value: X, roles: string[]): X {
+    const forbidden = this.getForbiddenFields(entity, roles, 'read');
+    if (forbidden.length === 0 || !value) return value;
+
+    const copy = Object.create(Object.getPrototypeOf(value), Object.getOwnPropertyDescriptors(value));
+    for (const field of forbidden) {
+      Object.defineProperty(copy, field, { value: undefined, enumerable: false, writable: true, configurable: true });
+    }
+    return copy;
+  }
+
+  /**
+   * Remove the fields the roles are not allowed to read from an already serialized record
+   */
+  static filterReadablePlain(entity: Type<any>, plain: Record<string, any>, roles: string[]): Record<string, any> {
+    const forbidden = this.getForbiddenFields(entity, roles, 'read');
+    if (forbidden.length === 0) return plain;
+
+    const { toExposed } = QueryFilterUtil.getExposedNameMap(entity);
+    const result = { ...plain };
+    for (const field of forbidden) {
+      delete result[toExposed.get(field) || field];
+    }
+    return result;
+  }
+}
@@ -0,0 +1,13 @@
+import { ForbiddenException } from '@nestjs/common';
+import { CrudHookContext, CrudHookResult } from '../interfaces/crud-hooks.interface';
+
+export class HookUtil {
+  /**
+   * Run a `before*` hook and reject the operation when the hook vetoes it by returning `false`
+   */
+  static async runBefore(result: CrudHookResult, ctx?: CrudHookContext): Promise<void> {
+    if (await result === false) {
+      throw new ForbiddenException(`The ${ctx?.operation ?? 'requested'} operation was rejected`);
+    }
+  }
+}
@@ -0,0 +1,315 @@
+import { BadRequestException, HttpException, PayloadTooLargeException, Type } from '@nestjs/common';
+import { EntityMetadata, EntityProperty, MetadataStorage, ReferenceKind } from '@mikro-orm/core';
+import { plainToInstance } from 'class-transformer';
+import { validate, ValidationError, ValidatorOptions } from 'class-validator';
+import { parse as parseCsv } from 'csv-parse';
+import busboy from 'busboy';
+import { createInterface } from 'readline';
+import { Readable, Transform } from 'stream';
+import type { IncomingHttpHeaders } from 'http';
+import { ImportFailure, ImportLimits } from '../interfaces/import-report.interface';
+import { QueryFilterUtil } from './query-filter.util';
+
+export const IMPORT_CONTENT_TYPES = ['application/json', 'text/csv', 'application/x-ndjson', 'multipart/form-data'];
+
+type ImportFormat = 'json' | 'csv' | 'ndjson';
+
+const DEFAULT_MAX_ROWS = 10000;
+const DEFAULT_MAX_BYTES = 10 * 1024 * 1024;
+
+export class ImportUtil {
+  /**
+   * Stream the rows of a CSV, NDJSON or multipart/form-data import request, keyed by entity property names.
+   * Returns undefined for JSON requests, which are already parsed by the body parser.
+   */
+  static parseRequest<T>(
+    req: Readable & { headers: IncomingHttpHeaders },
+    entity: Type<T>,
+    limits: ImportLimits = {},
+  ): AsyncIterable<Record<string, any>> | undefined {
+    const contentType = (req.headers['content-type'] ?? '').split(';')[0].trim().toLowerCase();
+    if (!['text/csv', 'application/x-ndjson', 'multipart/form-data'].includes(contentType)) {
+      return undefined;
+    }
+    return this.readRows(req, entity, contentType, limits);
+  }
+
+  /**
+   * Reject a JSON import with more rows than allowed
+   */
+  static checkRowCount(rows: unknown[], limits: ImportLimits = {}) {
+    const maxRows = limits.maxRows ?? DEFAULT_MAX_ROWS;
+    if (rows.length > maxRows) {
+      throw new PayloadTooLargeException(`An import is limited to ${maxRows} rows`);
+    }
+  }
+
+  /**
+   * Validate every row against the DTO, collecting the failures instead of rejecting the whole import
+   */
+  static async validateRows<C>(rows: any[], dto: Type<C>, validatorOptions?: ValidatorOptions): Promise<{ valid: { index: number, item: C }[], failed: ImportFailure[] }> {
+    const valid: { index: number, item: C }[] = [];
+    const failed: ImportFailure[] = [];
+
+    for (const [index, row] of rows.entries()) {
+      const result = await this.validateRow(row, dto, validatorOptions);
+      if ('item' in result) {
+        valid.push({ index, item: result.item });
+      } else {
+        failed.push({ index, errors: result.errors });
+      }
+    }
+
+    return { valid, failed };
+  }
+
+  static async validateRow<C>(row: any, dto: Type<C>, validatorOptions?: ValidatorOptions): Promise<{ item: C } | { errors: string[] }> {
+    if (!row || typeof row !== 'object' || Array.isArray(row)) {
+      return { errors: ['Row must be an object'] };
+    }
+
+    const item = plainToInstance(dto, row) as C;
+    const errors = await validate(item as object, validatorOptions);
+    if (errors.length > 0) {
+      return { errors: this.flattenValidationErrors(errors) };
+    }
+    return { item };
+  }
+
+  /**
+   * Convert an error thrown while persisting a row into readable messages
+   */
+  static describeError(error: unknown): string[] {
+    if (error instanceof HttpException) {
+      const response = error.getResponse();
+      const message = typeof response === 'object' ? (response as any).message : response;
+      return Array.isArray(message) ? message.map(String) : [String(message ?? error.message)];
+    }
+    if (error instanceof Error) {
+      return [error.message];
+    }
+    return [String(error)];
+  }
+
+  static flattenValidationErrors(errors: ValidationError[]): string[] {
+    const messages: string[] = [];
+    for (const error of errors) {
+      if (error.constraints) {
+        messages.push(...Object.values(error.constraints));
+      }
+      if (error.children?.length) {
+        messages.push(...this.flattenValidationErrors(error.children));
+      }
+    }
+    return messages;
+  }
+
+  private static async *readRows<T>(
+    req: Readable & { headers: IncomingHttpHeaders },
+    entity: Type<T>,
+    contentType: string,
+    limits: ImportLimits,
+  ): AsyncGenerator<Record<string, any>> {
+    const maxRows = limits.maxRows ?? DEFAULT_MAX_ROWS;
+    const maxBytes = limits.maxBytes ?? DEFAULT_MAX_BYTES;
+    if (Number(req.headers['content-length']) > maxBytes) {
+      throw new PayloadTooLargeException(`An import is limited to ${maxBytes} bytes`);
+    }
+
+    const { format, stream } = contentType === 'multipart/form-data'
+      ? await this.readMultipartFile(req, maxBytes)
+      : { format: contentType === 'text/csv' ? 'csv' as const : 'ndjson' as const, stream: this.limitBytes(req, maxBytes) };
+    const rows = format === 'csv' ? this.parseCsv(stream) : format === 'ndjson' ? this.parseNdjson(stream) : this.parseJson(stream);
+
+    const meta = MetadataStorage.getMetadataFromDecorator(entity);
+    const { toInternal } = QueryFilterUtil.getExposedNameMap(entity);
+    let count = 0;
+    for await (const row of rows) {
+      if (++count > maxRows) {
+        throw new PayloadTooLargeException(`An import is limited to ${maxRows} rows`);
+      }
+      yield this.mapRow(row, meta, toInternal, format === 'csv');
+    }
+  }
+
+  private static limitBytes(stream: Readable, maxBytes: number): Readable {
+    let size = 0;
+    return stream.pipe(new Transform({
+      transform(chunk: Buffer, _encoding, callback) {
+        size += chunk.length;
+        if (size > maxBytes) {
+          return callback(new PayloadTooLargeException(`An import is limited to ${maxBytes} bytes`));
+        }
+        callback(null, chunk);
+      },
+    }));
+  }
+
+  private static async *parseCsv(stream: Readable): AsyncGenerator<Record<string, string>> {
+    const parser = stream.pipe(parseCsv({ columns: true, bom: true, skip_empty_lines: true, trim: true }));
+    stream.on('error', error => parser.destroy(error));
+    try {
+      yield* parser;
+    } catch (e) {
+      if (e instanceof HttpException) throw e;
+      throw new BadRequestException(`Invalid CSV: ${(e as Error).message}`);
+    }
+  }
+
+  private static async *parseNdjson(stream: Readable): AsyncGenerator<any> {
+    const lines = createInterface({ input: stream, crlfDelay: Infinity });
+    // readline does not forward the errors of its input
+    const failure = new Promise<never>((_, reject) => stream.on('error', reject));
+    failure.catch(() => undefined);
+    const iterator = lines[Symbol.asyncIterator]();
+    let lineNumber = 0;
+
+    while (true) {
+      const next = await Promise.race([iterator.next(), failure]);
+      if (next.done) return;
+      const line = next.value;
+      lineNumber++;
+      if (!line.trim()) continue;
+      try {
+        yield JSON.parse(line);
+      } catch (e) {
+        throw new BadRequestException(`Invalid JSON on line ${lineNumber}`);
+      }
+    }
+  }
+
+  /**
+   * A JSON file is parsed as a whole, its size is bounded by `maxBytes`
+   */
+  private static async *parseJson(stream: Readable): AsyncGenerator<any> {
+    let content = '';
+    for await (const chunk of stream) {
+      content += chunk.toString();
+    }
+    let rows: any;
+    try {
+      rows = JSON.parse(content);
+    } catch (e) {
+      throw new BadRequestException('Invalid JSON');
+    }
+    if (!Array.isArray(rows)) {
+      throw new BadRequestException('Expected an array of records');
+    }
+    yield* rows;
+  }
+
+  /**
+   * Resolve with the stream of the first uploaded file. Busboy may report an oversized file, a second file or a
+   * malformed body before the rows are read, so these failures are raised by the file stream once it is consumed.
+   */
+  private static readMultipartFile(req: Readable & { headers: IncomingHttpHeaders }, maxBytes: number): Promise<{ format: ImportFormat, stream: Readable }> {
+    return new Promise((resolve, reject) => {
+      let parser: busboy.Busboy;
+      let failure: Error | undefined;
+      let file: { source: Readable, stream: Transform } | undefined;
+
+      try {
+        parser = busboy({ headers: req.headers, limits: { files: 1, fileSize: maxBytes, fields: 10, fieldSize: 1024 } });
+      } catch (e) {
+        return reject(new BadRequestException((e as Error).message));
+      }
+
+      const settled = new Promise<void>(resolve => {
+        parser.on('close', resolve);
+        parser.on('error', () => resolve());
+      });
+
+      parser.on('file', (_name, source, info) => {
+        const format = this.detectFileFormat(info.mimeType, info.filename);
+        if (!format) {
+          source.resume();
+          return reject(new BadRequestException(`Unsupported file type ${info.mimeType}`));
+        }
+
+        const stream = new Transform({
+          transform: (chunk, _encoding, callback) => callback(null, chunk),
+          // Wait for the rest of the body, so a failure reported after the file is not missed
+          flush: callback => settled.then(() => callback(failure ?? null)),
+        });
+        source.on('limit', () => failure ??= new PayloadTooLargeException(`An import is limited to ${maxBytes} bytes`));
+        // Busboy also destroys the file on a malformed body, which is reported by its own error event
+        source.on('error', () => undefined);
+        file = { source, stream };
+        resolve({ format, stream: source.pipe(stream) });
+      });
+      parser.on('filesLimit', () => failure ??= new BadRequestException('Only one file can be imported at once'));
+      parser.on('error', (e: Error) => {
+        failure ??= new BadRequestException(e.message);
+        reject(failure);
+        // The file does not end when the body is malformed
+        file?.source.unpipe(file.stream);
+        file?.stream.end();
+      });
+      parser.on('close', () => reject(new BadRequestException('No file was uploaded')));
+
+      req.pipe(parser);
+    });
+  }
+
+  private static detectFileFormat(mimeType: string, filename?: string): ImportFormat | undefined {
+    const extension = filename?.split('.').pop()?.toLowerCase();
+    if (mimeType === 'text/csv' || extension === 'csv') return 'csv';
+    if (mimeType === 'application/x-ndjson' || extension === 'ndjson' || extension === 'jsonl') return 'ndjson';
+    if (mimeType === 'application/json' || extension === 'json') return 'json';
+    return undefined;
+  }
+
+  /**
+   * Map the exposed column names to entity property names, coercing the (string) values of CSV rows
+   */
+  private static mapRow(row: any, meta: EntityMetadata | undefined, toInternal: Map<string, string>, coerce: boolean): any {
+    if (!row || typeof row !== 'object' || Array.isArray(row)) return row;
+
+    const mapped: Record<string, any> = {};
+    for (const [column, value] of Object.entries(row)) {
+      const key = toInternal.get(column) || column;
+      const coerced = coerce ? this.coerceValue(value, meta?.properties[key]) : value;
+      if (coerced !== undefined) {
+        mapped[key] = coerced;
+      }
+    }
+    return mapped;
+  }
+
+  private static coerceValue(value: any, prop?: EntityProperty): any {
+    if (typeof value !== 'string') return value;
+    if (value === '') return undefined;
+    if (!prop) return value;
+
+    const type: any = prop.type;
+    const isNumber = type === 'number' || type === Number;
+    const isBoolean = type === 'boolean' || type === Boolean;
+    const isDate =
+      type === 'date' ||
+      type === Date ||
+      (typeof type === 'string' && type.toLowerCase().includes('date'));
+    const isStructured = prop.array || prop.kind === ReferenceKind.EMBEDDED || type === 'json' || (typeof type === 'string' && type.endsWith('[]'));
+
+    if (isStructured && (value.startsWith('[') || value.startsWith('{'))) {
+      try {
+        return JSON.parse(value);
+      } catch (e) {
+        return value;
+      }
+    }
+    if (isNumber) {
+      const number = Number(value);
+      return isNaN(number) ? value : number;
+    }
+    if (isBoolean) {
+      if (['true', '1', 'yes'].includes(value.toLowerCase())) return true;
+      if (['false', '0', 'no'].includes(value.toLowerCase())) return false;
+      return value;
+    }
+    if (isDate) {
+      const date = new Date(value);
+      return isNaN(date.getTime()) ? value : date;
+    }
+    return value;
+  }
+}
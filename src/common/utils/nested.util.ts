@@ -0,0 +1,106 @@
+import { BadRequestException, ForbiddenException, NotFoundException } from '@nestjs/common';
+import { EntityManager, FilterQuery, MetadataStorage } from '@mikro-orm/core';
+import { ObjectId as MongoObjectId } from 'mongodb';
+import { ObjectId } from '@mikro-orm/mongodb';
+import { ApiParamOptions } from '@nestjs/swagger';
+import { CrudNestedOptions, CrudTenantOptions } from '../interfaces/crud-options.interface';
+import { EntityNameUtil } from './entity-name.util';
+import { QueryFilterUtil } from './query-filter.util';
+import { TenantUtil } from './tenant.util';
+
+export class NestedUtil {
+  /**
+   * The primary key of the parent entity and how its route param is parsed
+   */
+  static getParentKey(nested: CrudNestedOptions): { name: string, type: 'ObjectId' | 'number' | 'string' } {
+    const meta = MetadataStorage.getMetadataFromDecorator(nested.parent);
+    // The primary keys are only listed once the metadata is discovered
+    const prop = Object.values(meta.properties).find(prop => prop.primary);
+    if (!prop) {
+      throw new Error(`Primary key of ${nested.parent.name} not found`);
+    }
+    const name = prop.name as string;
+    const type = prop.type ?? Reflect.getMetadata('design:type', nested.parent.prototype, name);
+
+    if (type === 'ObjectId' || type === ObjectId || type === MongoObjectId) {
+      return { name, type: 'ObjectId' };
+    }
+    if (type === 'number' || type === Number) {
+      return { name, type: 'number' };
+    }
+    return { name, type: 'string' };
+  }
+
+  static parseParentId(nested: CrudNestedOptions, params: Record<string, string>): MongoObjectId | number | string {
+    const value = params?.[nested.param];
+    if (value === undefined) {
+      throw new Error(`Route param ${nested.param} of the parent is missing`);
+    }
+
+    switch (this.getParentKey(nested).type) {
+      case 'ObjectId':
+        if (!MongoObjectId.isValid(value)) {
+          throw new BadRequestException('Invalid ObjectId');
+        }
+        return new MongoObjectId(value);
+      case 'number':
+        if (isNaN(Number(value))) {
+          throw new BadRequestException('Invalid ID');
+        }
+        return Number(value);
+      default:
+        return value;
+    }
+  }
+
+  /**
+   * Load the parent of the route, throws a 404 when it does not exist or is not visible under the parent filter.
+   * With the `tenant` option a parent that has the tenant property must belong to the tenant of the request.
+   */
+  static async findParent<P extends object>(
+    em: EntityManager,
+    nested: CrudNestedOptions<P>,
+    request: any,
+    params: Record<string, string>,
+    tenant?: CrudTenantOptions,
+  ): Promise<P> {
+    const filter = await nested.filter?.(request, params);
+    let where = QueryFilterUtil.combineFilters(filter, { [this.getParentKey(nested).name]: this.parseParentId(nested, params) });
+
+    if (tenant && MetadataStorage.getMetadataFromDecorator(nested.parent).properties[tenant.field]) {
+      const current = TenantUtil.getTenant() ?? await tenant.resolve(request);
+      if (current === undefined || current === null) {
+        throw new ForbiddenException('No tenant could be resolved for this request');
+      }
+      where = QueryFilterUtil.combineFilters(where, { [tenant.field]: current });
+    }
+
+    const parent = await em.findOne(nested.parent, where as FilterQuery<P>);
+    if (!parent) {
+      throw new NotFoundException(`${EntityNameUtil.classToName(nested.parent)} not found`);
+    }
+    return parent;
+  }
+
+  /**
+   * Restrict a filter to the children of the parent of the route
+   */
+  static scope<T>(where: FilterQuery<T> | undefined, nested: CrudNestedOptions, params: Record<string, string>): FilterQuery<T> {
+    return QueryFilterUtil.combineFilters(where, { [nested.relation]: this.parseParentId(nested, params) }) as FilterQuery<T>;
+  }
+
+  /**
+   * Swagger description of the parent route param, typed after the primary key of the parent
+   */
+  static getApiParam(nested: CrudNestedOptions): Partial<ApiParamOptions> {
+    const description = `Id of the ${EntityNameUtil.classToName(nested.parent)}`;
+    switch (this.getParentKey(nested).type) {
+      case 'ObjectId':
+        return { type: 'string', format: 'ObjectId', example: '507f1f77bcf86cd799439011', description };
+      case 'number':
+        return { type: 'number', description };
+      default:
+        return { type: 'string', description };
+    }
+  }
+}
@@ -0,0 +1,233 @@
+import { BadRequestException, ConflictException, Type, UnprocessableEntityException } from '@nestjs/common';
+import { MetadataStorage } from '@mikro-orm/core';
+import { instanceToPlain, plainToInstance } from 'class-transformer';
+import { validate } from 'class-validator';
+import type { Readable } from 'stream';
+import type { IncomingHttpHeaders } from 'http';
+import { JsonPatchOperation } from '../interfaces/json-patch.interface';
+import { ImportUtil } from './import.util';
+import { QueryFilterUtil } from './query-filter.util';
+
+export const MERGE_PATCH_CONTENT_TYPE = 'application/merge-patch+json';
+export const JSON_PATCH_CONTENT_TYPE = 'application/json-patch+json';
+
+const JSON_PATCH_OPERATIONS = ['add', 'remove', 'replace', 'move', 'copy', 'test'];
+
+export class PatchUtil {
+  /**
+   * Read the patch document of a PATCH request. The patch content types are not handled by the default body parser,
+   * so the request stream is read when it has not been consumed yet.
+   */
+  static async readRequest(req: Readable & { headers: IncomingHttpHeaders, body?: any }): Promise<{ contentType: string, patch: any }> {
+    const contentType = (req.headers['content-type'] ?? 'application/json').split(';')[0].trim().toLowerCase();
+    if (![MERGE_PATCH_CONTENT_TYPE, JSON_PATCH_CONTENT_TYPE, 'application/json'].includes(contentType)) {
+      throw new BadRequestException(`Unsupported patch content type ${contentType}`);
+    }
+
+    if (req.readableEnded || !req.readable) {
+      return { contentType, patch: req.body };
+    }
+
+    let content = '';
+    for await (const chunk of req) {
+      content += chunk.toString();
+    }
+    try {
+      return { contentType, patch: JSON.parse(content) };
+    } catch (e) {
+      throw new BadRequestException('Invalid JSON');
+    }
+  }
+
+  /**
+   * Apply a merge patch (RFC 7396) or JSON patch (RFC 6902) to the entity as clients see it.
+   * Returns the new values of the patched top-level properties keyed by property name, `null` meaning unset.
+   */
+  static apply<T extends object>(current: T, entity: Type<T>, contentType: string, patch: any): Record<string, any> {
+    const document = JSON.parse(JSON.stringify(instanceToPlain(current)));
+
+    let patched: Record<string, any>;
+    let touched: string[];
+
+    if (contentType === JSON_PATCH_CONTENT_TYPE) {
+      if (!Array.isArray(patch)) {
+        throw new BadRequestException('A JSON patch must be an array of operations');
+      }
+      patched = this.applyJsonPatch(document, patch);
+      // A test operation does not change the document, so its path is not touched
+      touched = patch.filter((operation: JsonPatchOperation) => operation.op !== 'test')
+        .flatMap((operation: JsonPatchOperation) => [operation.path, operation.op === 'move' ? operation.from! : ''])
+        .map(pointer => this.parsePointer(pointer)[0])
+        .filter((key): key is string => key !== undefined);
+    } else {
+      if (!patch || typeof patch !== 'object' || Array.isArray(patch)) {
+        throw new BadRequestException('A merge patch must be an object');
+      }
+      patched = this.applyMergePatch(document, patch);
+      touched = Object.keys(patch);
+    }
+
+    const meta = MetadataStorage.getMetadataFromDecorator(entity);
+    const { toInternal } = QueryFilterUtil.getExposedNameMap(entity);
+    const changes: Record<string, any> = {};
+
+    for (const key of new Set(touched)) {
+      const property = toInternal.get(key) || key;
+      const value = patched[key] ?? null;
+      if (value === null && meta?.properties[property] && !meta.properties[property].nullable) {
+        throw new BadRequestException(`${key} cannot be unset`);
+      }
+      changes[property] = value;
+    }
+    return changes;
+  }
+
+  /**
+   * Validate the patched values against the DTO, rejecting the request like the ValidationPipe would.
+   * The patch applies to the whole entity, so changes to properties the DTO does not declare are rejected as well
+   */
+  static async validate<U>(changes: Record<string, any>, dto: Type<U>): Promise<U> {
+    const item = plainToInstance(dto, changes) as U;
+    const errors = await validate(item as object, { whitelist: true, forbidNonWhitelisted: true });
+    if (errors.length > 0) {
+      throw new BadRequestException(ImportUtil.flattenValidationErrors(errors));
+    }
+    return item;
+  }
+
+  /**
+   * RFC 7396: objects are merged recursively, `null` removes a member and any other value replaces it
+   */
+  static applyMergePatch(target: any, patch: any): any {
+    if (!patch || typeof patch !== 'object' || Array.isArray(patch)) {
+      return patch;
+    }
+
+    const result = target && typeof target === 'object' && !Array.isArray(target) ? { ...target } : {};
+    for (const [key, value] of Object.entries(patch)) {
+      if (value === null) {
+        delete result[key];
+      } else {
+        result[key] = this.applyMergePatch(result[key], value);
+      }
+    }
+    return result;
+  }
+
+  /**
+   * RFC 6902: the operations are applied in order and the patch fails as a whole when one of them fails
+   */
+  static applyJsonPatch(document: any, operations: JsonPatchOperation[]): any {
+    let result = structuredClone(document);
+
+    for (const [index, operation] of operations.entries()) {
+      if (!operation || !JSON_PATCH_OPERATIONS.includes(operation.op) || typeof operation.path !== 'string') {
+        throw new BadRequestException(`Invalid patch operation at index ${index}`);
+      }
+      if ((operation.op === 'move' || operation.op === 'copy') && typeof operation.from !== 'string') {
+        throw new BadRequestException(`Missing from in patch operation at index ${index}`);
+      }
+      if (['add', 'replace', 'test'].includes(operation.op) && !('value' in operation)) {
+        throw new BadRequestException(`Missing value in patch operation at index ${index}`);
+      }
+
+      const path = this.parsePointer(operation.path);
+      switch (operation.op) {
+        case 'add':
+          result = this.addValue(result, path, structuredClone(operation.value));
+          break;
+        case 'remove':
+          result = this.removeValue(result, path);
+          break;
+        case 'replace':
+          result = this.addValue(this.removeValue(result, path), path, structuredClone(operation.value));
+          break;
+        case 'move': {
+          const from = this.parsePointer(operation.from!);
+          if (operation.path.startsWith(`${operation.from}/`)) {
+            throw new UnprocessableEntityException(`Cannot move ${operation.from} into one of its children`);
+          }
+          const value = this.getValue(result, from);
+          result = this.addValue(this.removeValue(result, from), path, value);
+          break;
+        }
+        case 'copy':
+          result = this.addValue(result, path, structuredClone(this.getValue(result, this.parsePointer(operation.from!))));
+          break;
+        case 'test':
+          if (!this.isEqual(this.getValue(result, path), operation.value)) {
+            throw new ConflictException(`Test failed for ${operation.path}`);
+          }
+          break;
+      }
+    }
+    return result;
+  }
+
+  private static parsePointer(pointer: string): string[] {
+    if (pointer === '') return [];
+    if (!pointer.startsWith('/')) {
+      throw new BadRequestException(`Invalid JSON pointer ${pointer}`);
+    }
+    return pointer.substring(1).split('/').map(token => token.replace(/~1/g, '/').replace(/~0/g, '~'));
+  }
+
+  private static getValue(document: any, path: string[]): any {
+    let value = document;
+    for (const token of path) {
+      if (!value || typeof value !== 'object' || !Object.prototype.hasOwnProperty.call(value, token)) {
+        throw new UnprocessableEntityException(`Path /${path.join('/')} does not exist`);
+      }
+      value = value[token];
+    }
+    return value;
+  }
+
+  private static addValue(document: any, path: string[], value: any): any {
+    if (path.length === 0) return value;
+
+    const parent = this.getValue(document, path.slice(0, -1));
+    const token = path[path.length - 1];
+
+    if (Array.isArray(parent)) {
+      const index = token === '-' ? parent.length : this.parseIndex(token, parent.length);
+      parent.splice(index, 0, value);
+    } else if (parent && typeof parent === 'object') {
+      parent[token] = value;
+    } else {
+      throw new UnprocessableEntityException(`Path /${path.join('/')} does not exist`);
+    }
+    return document;
+  }
+
+  private static removeValue(document: any, path: string[]): any {
+    if (path.length === 0) return undefined;
+
+    const parent = this.getValue(document, path.slice(0, -1));
+    const token = path[path.length - 1];
+    this.getValue(document, path);
+
+    if (Array.isArray(parent)) {
+      parent.splice(this.parseIndex(token, parent.length - 1), 1);
+    } else {
+      delete parent[token];
+    }
+    return document;
+  }
+
+  private static parseIndex(token: string, max: number): number {
+    if (!/^(0|[1-9][0-9]*)$/.test(token) || Number(token) > max) {
+      throw new UnprocessableEntityException(`Invalid array index ${token}`);
+    }
+    return Number(token);
+  }
+
+  private static isEqual(a: any, b: any): boolean {
+    if (a === b) return true;
+    if (!a || !b || typeof a !== 'object' || typeof b !== 'object' || Array.isArray(a) !== Array.isArray(b)) {
+      return false;
+    }
+    const keys = Object.keys(a);
+    return keys.length === Object.keys(b).length && keys.every(key => this.isEqual(a[key], b[key]));
+  }
+}
@@ -1,10 +1,60 @@
-import { Type } from '@nestjs/common';
-import { MetadataStorage, FilterQuery } from '@mikro-orm/core';
+import { BadRequestException, Type } from '@nestjs/common';
+import { MetadataStorage, FilterQuery, EntityProperty, ReferenceKind, EntityManager, EntityName, wrap } from '@mikro-orm/core';
+import { MongoPlatform, ObjectId } from '@mikro-orm/mongodb';
+import { ObjectId as MongoObjectId } from 'mongodb';
 import { ApiQueryOptions } from '@nestjs/swagger';
 
+type FilterValueType = 'string' | 'number' | 'date' | 'boolean' | 'enum' | 'objectId' | 'unknown';
+
+interface FilterOperator {
+  suffix: string;
+  description: string;
+  types: FilterValueType[];
+  // Regular expressions are returned as is, they cannot be merged with the other operators
+  build: (value: any, coerce: (value: any) => any, param: string) => Record<string, any> | RegExp;
+}
+
+const ALL_TYPES: FilterValueType[] = ['string', 'number', 'date', 'boolean', 'enum', 'objectId', 'unknown'];
+const LIST_TYPES: FilterValueType[] = ['string', 'number', 'date', 'enum', 'objectId'];
+const RANGE_TYPES: FilterValueType[] = ['number', 'date'];
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const toList = (value: any, coerce: (value: any) => any) => {
+  const values = Array.isArray(value) ? value : String(value).split(',');
+  return values.map(v => typeof v === 'string' ? v.trim() : v).filter(v => v !== '').map(coerce);
+};
+
+const parseFlag = (value: any, param: string) => {
+  if (value === 'true' || value === '1' || value === '') return true;
+  if (value === 'false' || value === '0') return false;
+  throw new BadRequestException(`Invalid value for ${param}, expected true or false`);
+};
+
+const MAX_FILTER_DEPTH = 5;
+
+// The number of related records a nested relation condition may match, their ids are inlined in the query
+const MAX_RELATION_MATCHES = 10000;
+
+const FILTER_OPERATORS: FilterOperator[] = [
+  { suffix: '', description: 'exact match', types: ALL_TYPES, build: (v, coerce) => ({ $eq: coerce(v) }) },
+  { suffix: 'ne', description: 'not equal', types: ALL_TYPES, build: (v, coerce) => ({ $ne: coerce(v) }) },
+  { suffix: 'in', description: 'comma separated list of values', types: LIST_TYPES, build: (v, coerce) => ({ $in: toList(v, coerce) }) },
+  { suffix: 'nin', description: 'comma separated list of excluded values', types: LIST_TYPES, build: (v, coerce) => ({ $nin: toList(v, coerce) }) },
+  { suffix: 'exists', description: 'true when set, false when empty', types: ALL_TYPES, build: (v, _, param) => parseFlag(v, param) ? { $ne: null } : { $eq: null } },
+  { suffix: 'contains', description: 'contains', types: ['string'], build: v => ({ $like: `%${v}%` }) },
+  { suffix: 'icontains', description: 'contains, case insensitive', types: ['string'], build: v => new RegExp(escapeRegExp(String(v)), 'i') },
+  { suffix: 'startsWith', description: 'starts with', types: ['string'], build: v => new RegExp(`^${escapeRegExp(String(v))}`) },
+  { suffix: 'endsWith', description: 'ends with', types: ['string'], build: v => new RegExp(`${escapeRegExp(String(v))}$`) },
+  { suffix: 'min', description: 'minimum value', types: RANGE_TYPES, build: (v, coerce) => ({ $gte: coerce(v) }) },
+  { suffix: 'max', description: 'maximum value', types: RANGE_TYPES, build: (v, coerce) => ({ $lte: coerce(v) }) },
+  { suffix: 'gt', description: 'greater than', types: RANGE_TYPES, build: (v, coerce) => ({ $gt: coerce(v) }) },
+  { suffix: 'lt', description: 'less than', types: RANGE_TYPES, build: (v, coerce) => ({ $lt: coerce(v) }) },
+];
+
 export class QueryFilterUtil {
   
-  private static getExposedNameMap<T>(entity: Type<T>): { toExposed: Map<string, string>, toInternal: Map<string, string> } {
+  static getExposedNameMap<T>(entity: Type<T>): { toExposed: Map<string, string>, toInternal: Map<string, string> } {
     const { defaultMetadataStorage } = require('class-transformer/cjs/storage');
     
     const toExposed = new Map<string, string>();
@@ -50,44 +100,21 @@ export class QueryFilterUtil {
         continue;
       }
 
-      const prop = meta.properties[key];
-      if (!prop) continue;
+      const resolved = this.resolveFilterPath(entity, key);
+      if (!resolved) continue;
 
-      const type = prop.type;
-      
-      // Base exact match for all types
-      params.push({
-        name: exposedName,
-        required: false,
-        type: 'string', // Query params are strings, will be parsed
-        description: `Filter by ${exposedName} (exact match)`,
-      });
+      const { prop } = resolved;
+      const valueType = this.getValueType(prop);
 
-      if (type === 'string' || type === String) {
-        params.push({
-          name: `${exposedName}.contains`,
-          required: false,
-          type: 'string',
-          description: `Filter by ${exposedName} (contains)`,
-        });
-      } else if (
-        type === 'number' ||
-        type === Number ||
-        type === 'date' ||
-        type === Date ||
-        (typeof type === 'string' && type.toLowerCase().includes('date'))
-      ) {
-        params.push({
-          name: `${exposedName}.min`,
-          required: false,
-          type: 'string', // Can be number or date string
-          description: `Filter by ${exposedName} (minimum value)`,
-        });
+      for (const operator of FILTER_OPERATORS) {
+        if (!operator.types.includes(valueType)) continue;
+
+        const enumValues = valueType === 'enum' ? this.getEnumValues(prop) : undefined;
         params.push({
-          name: `${exposedName}.max`,
+          name: operator.suffix ? `${resolved.exposedName}.${operator.suffix}` : resolved.exposedName,
           required: false,
-          type: 'string',
-          description: `Filter by ${exposedName} (maximum value)`,
+          type: 'string', // Query params are strings, will be parsed
+          description: `Filter by ${resolved.exposedName} (${operator.description})${enumValues ? `, one of: ${enumValues.join(', ')}` : ''}`,
         });
       }
     }
@@ -95,10 +122,14 @@ export class QueryFilterUtil {
     return params;
   }
 
+  /**
+   * Parse the filter query parameters, filtering on a field of `forbidden` (the fields the caller may not read) is rejected
+   */
   static parseQueryFilters<T>(
     query: Record<string, any>,
     filterConfig: { [key: string]: boolean | ((value: any) => FilterQuery<T>) },
     entity: Type<T>,
+    forbidden: string[] = [],
   ): Record<string, any> {
     const meta = MetadataStorage.getMetadataFromDecorator(entity);
     const where: Record<string, any> = {};
@@ -106,6 +137,8 @@ export class QueryFilterUtil {
     if (!meta) return where;
 
     const { toExposed } = this.getExposedNameMap(entity);
+    // Combined with $and, so a custom filter cannot overwrite the conditions on the same keys
+    const customFilters: FilterQuery<T>[] = [];
 
     for (const [key, config] of Object.entries(filterConfig)) {
       if (!config) continue;
@@ -114,55 +147,511 @@ export class QueryFilterUtil {
 
       if (typeof config === 'function') {
         if (query[exposedName] !== undefined) {
-          const customFilter = config(query[exposedName]);
-          Object.assign(where, customFilter);
+          this.checkReadable(key, exposedName, forbidden);
+          customFilters.push(config(query[exposedName]));
         }
         continue;
       }
 
-      const prop = meta.properties[key];
-      if (!prop) continue;
-
-      const type = prop.type;
-      const isString = type === 'string' || type === String;
-      const isNumber = type === 'number' || type === Number;
-      const isDate =
-        type === 'date' ||
-        type === Date ||
-        (typeof type === 'string' && type.toLowerCase().includes('date'));
-      const isBoolean = type === 'boolean' || type === Boolean;
-
-      // Exact match
-      if (query[exposedName] !== undefined) {
-        if (isNumber) {
-          where[key] = Number(query[exposedName]);
-        } else if (isBoolean) {
-          where[key] = query[exposedName] === 'true';
-        } else if (isDate) {
-           where[key] = new Date(query[exposedName]);
+      const resolved = this.resolveFilterPath(entity, key);
+      if (!resolved) continue;
+
+      const { prop, path } = resolved;
+      const valueType = this.getValueType(prop);
+      const condition: Record<string, any> = {};
+      const patterns: RegExp[] = [];
+
+      for (const operator of FILTER_OPERATORS) {
+        if (!operator.types.includes(valueType)) continue;
+
+        const param = operator.suffix ? `${resolved.exposedName}.${operator.suffix}` : resolved.exposedName;
+        if (query[param] === undefined) continue;
+        this.checkReadable(key, resolved.exposedName, forbidden);
+
+        const coerce = (value: any) => this.coerceValue(value, prop, valueType, param);
+        const built = operator.build(query[param], coerce, param);
+        if (built instanceof RegExp) {
+          patterns.push(built);
         } else {
-          where[key] = query[exposedName];
+          Object.assign(condition, built);
         }
       }
 
-      // String contains
-      if (isString && query[`${exposedName}.contains`] !== undefined) {
-        where[key] = { ...(where[key] || {}), $like: `%${query[`${exposedName}.contains`]}%` };
+      const conditions: any[] = [...patterns];
+      if (Object.keys(condition).length > 0) {
+        // Keep plain equality filters as a scalar value
+        conditions.unshift(Object.keys(condition).length === 1 && '$eq' in condition ? condition.$eq : condition);
+      }
+
+      if (conditions.length === 0) continue;
+
+      // Relation and embedded paths become nested conditions, see resolveRelationConditions for the relations on MongoDB
+      this.assignPath(where, path, conditions[0]);
+      for (const extra of conditions.slice(1)) {
+        where.$and = [...(where.$and ?? []), this.assignPath({}, path, extra)];
       }
+    }
+
+    return this.combineFilters(where, ...customFilters);
+  }
+
+  static getSwaggerStructuredFilterParam(): ApiQueryOptions {
+    return {
+      name: 'filter',
+      required: false,
+      type: 'string',
+      description: 'JSON filter expression combining the filter parameters with $and, $or and $not, e.g. {"$or":[{"status":"draft"},{"total.gt":100}]}',
+    };
+  }
+
+  /**
+   * Parse the `filter` query parameter, a JSON expression whose leaves use the same keys as the filter query parameters
+   */
+  static parseStructuredFilter<T>(
+    raw: any,
+    filterConfig: { [key: string]: boolean | ((value: any) => FilterQuery<T>) },
+    entity: Type<T>,
+    forbidden: string[] = [],
+  ): Record<string, any> | undefined {
+    if (raw === undefined || raw === null || raw === '') return undefined;
+
+    let expression: any;
+    try {
+      expression = typeof raw === 'string' ? JSON.parse(raw) : raw;
+    } catch (e) {
+      throw new BadRequestException('Invalid filter, expected a JSON expression');
+    }
+
+    const allowed = new Set(this.getSwaggerQueryParams(entity, filterConfig).map(param => (param as { name: string }).name));
+    return this.parseFilterExpression(expression, filterConfig, entity, allowed, forbidden, 0);
+  }
+
+  static getSwaggerSearchParam<T>(entity: Type<T>, search: { fields: string[] }): ApiQueryOptions {
+    const fields = search.fields.map(field => this.resolveFilterPath(entity, field)?.exposedName ?? field);
+
+    return {
+      name: 'q',
+      required: false,
+      type: 'string',
+      description: `Search term, matched case insensitively against: ${fields.join(', ')}`,
+    };
+  }
 
-      // Min/Max for Numbers and Dates
-      if ((isNumber || isDate) && (query[`${exposedName}.min`] !== undefined || query[`${exposedName}.max`] !== undefined)) {
-        const range: any = {};
-        if (query[`${exposedName}.min`] !== undefined) {
-          range.$gte = isNumber ? Number(query[`${exposedName}.min`]) : new Date(query[`${exposedName}.min`]);
+  /**
+   * Build the search condition for the `q` query parameter, an OR of case insensitive contains over the configured fields,
+   * or a full-text search when the entity defines a full-text index. The fields of `forbidden` are not searched.
+   */
+  static parseSearch<T>(term: any, search: { fields: string[], textIndex?: boolean }, entity: Type<T>, forbidden: string[] = []): Record<string, any> | undefined {
+    if (term === undefined || term === null) return undefined;
+    if (typeof term !== 'string') {
+      throw new BadRequestException('Invalid value for q');
+    }
+
+    const trimmed = term.trim();
+    if (!trimmed) return undefined;
+
+    if (search.textIndex !== false && this.hasTextIndex(entity, forbidden)) {
+      return { $fulltext: trimmed };
+    }
+
+    const pattern = new RegExp(escapeRegExp(trimmed), 'i');
+    const conditions = search.fields
+      .filter(field => !forbidden.includes(field.split('.')[0]))
+      .map(field => this.resolveFilterPath(entity, field))
+      .filter(resolved => resolved !== undefined)
+      .map(resolved => this.assignPath({}, resolved!.path, pattern));
+
+    if (conditions.length === 0) return undefined;
+    return conditions.length === 1 ? conditions[0] : { $or: conditions };
+  }
+
+  /**
+   * Combine filters with $and so none of them can overwrite the conditions of another.
+   * Nested $and are flattened into a single level, MongoDB only accepts $fulltext at the top level or directly in it
+   */
+  static combineFilters<T>(...filters: (FilterQuery<T> | Record<string, any> | undefined | null)[]): Record<string, any> {
+    const conditions = filters
+      .filter(filter => filter !== undefined && filter !== null && !this.isEmptyFilter(filter))
+      .flatMap(filter => this.getConjuncts(filter));
+    if (conditions.length === 0) return {};
+    if (conditions.length === 1) return conditions[0] as Record<string, any>;
+    return { $and: conditions };
+  }
+
+  /**
+   * Replace the nested conditions on ManyToOne and OneToOne relations with the ids of the matching related entities,
+   * MongoDB cannot join the relations so it would compare the reference itself with the nested condition.
+   * Only plain objects are conditions, a primary key or an entity is returned as is.
+   */
+  static async resolveRelationConditions<T extends object>(em: EntityManager, entityName: EntityName<T>, where: FilterQuery<T>): Promise<FilterQuery<T>> {
+    if (!(em.getPlatform() instanceof MongoPlatform) || !this.isPlainObject(where)) return where;
+
+    const meta = em.getMetadata().find(entityName);
+    if (!meta) return where;
+
+    const resolved: Record<string, any> = {};
+    for (const [key, value] of Object.entries(where as Record<string, any>)) {
+      const prop = (meta.properties as Record<string, EntityProperty>)[key];
+
+      if ((key === '$and' || key === '$or' || key === '$nor') && Array.isArray(value)) {
+        resolved[key] = await Promise.all(value.map(item => this.resolveRelationConditions(em, entityName, item)));
+      } else if (key === '$not') {
+        resolved[key] = await this.resolveRelationConditions(em, entityName, value);
+      } else if (prop && [ReferenceKind.MANY_TO_ONE, ReferenceKind.ONE_TO_ONE].includes(prop.kind) && this.isNestedCondition(value)) {
+        const condition = await this.resolveRelationConditions(em, prop.type, value);
+        const related = await em.find(prop.type, condition, {
+          fields: prop.targetMeta?.primaryKeys as any,
+          limit: MAX_RELATION_MATCHES + 1,
+          disableIdentityMap: true,
+        });
+        if (related.length > MAX_RELATION_MATCHES) {
+          throw new BadRequestException(`The condition on ${key} matches too many records, it is limited to ${MAX_RELATION_MATCHES}`);
         }
-        if (query[`${exposedName}.max`] !== undefined) {
-          range.$lte = isNumber ? Number(query[`${exposedName}.max`]) : new Date(query[`${exposedName}.max`]);
+        resolved[key] = { $in: related.map(entity => wrap(entity, true).getPrimaryKey()) };
+      } else {
+        resolved[key] = value;
+      }
+    }
+
+    return resolved as FilterQuery<T>;
+  }
+
+  private static isPlainObject(value: any): boolean {
+    return !!value && typeof value === 'object' && Object.getPrototypeOf(value) === Object.prototype;
+  }
+
+  private static isEmptyFilter(filter: any): boolean {
+    return this.isPlainObject(filter) && Object.keys(filter).length === 0;
+  }
+
+  private static getConjuncts(filter: any): any[] {
+    const isConjunction = this.isPlainObject(filter) && Object.keys(filter).length === 1 && Array.isArray(filter.$and);
+    return isConjunction ? filter.$and.flatMap((item: any) => this.getConjuncts(item)) : [filter];
+  }
+
+  private static isNestedCondition(value: any): boolean {
+    return this.isPlainObject(value) && Object.keys(value).some(key => !key.startsWith('$'));
+  }
+
+  private static parseFilterExpression<T>(
+    expression: any,
+    filterConfig: { [key: string]: boolean | ((value: any) => FilterQuery<T>) },
+    entity: Type<T>,
+    allowed: Set<string>,
+    forbidden: string[],
+    depth: number,
+  ): Record<string, any> {
+    if (depth > MAX_FILTER_DEPTH) {
+      throw new BadRequestException('Invalid filter, the expression is nested too deeply');
+    }
+    if (!expression || typeof expression !== 'object' || Array.isArray(expression)) {
+      throw new BadRequestException('Invalid filter, expected an object');
+    }
+
+    const conditions: Record<string, any>[] = [];
+    const leaf: Record<string, any> = {};
+
+    for (const [key, value] of Object.entries(expression)) {
+      if (key === '$and' || key === '$or') {
+        if (!Array.isArray(value) || value.length === 0) {
+          throw new BadRequestException(`Invalid filter, ${key} expects a non-empty array`);
+        }
+        conditions.push({ [key]: value.map(item => this.parseFilterExpression(item, filterConfig, entity, allowed, forbidden, depth + 1)) });
+      } else if (key === '$not') {
+        conditions.push({ $not: this.parseFilterExpression(value, filterConfig, entity, allowed, forbidden, depth + 1) });
+      } else if (!allowed.has(key)) {
+        throw new BadRequestException(`Invalid filter, filtering on ${key} is not allowed`);
+      } else if (value !== null && typeof value === 'object' && !Array.isArray(value)) {
+        throw new BadRequestException(`Invalid value for ${key}`);
+      } else {
+        leaf[key] = Array.isArray(value) ? value.map(String) : String(value);
+      }
+    }
+
+    if (Object.keys(leaf).length > 0) {
+      conditions.unshift(this.parseQueryFilters(leaf, filterConfig, entity, forbidden));
+    }
+
+    return this.combineFilters(...conditions);
+  }
+
+  /**
+   * Resolve a (dot separated) filter key through ManyToOne, OneToOne and embedded properties
+   */
+  private static resolveFilterPath<T>(entity: Type<T>, key: string): { prop: EntityProperty, path: string[], exposedName: string } | undefined {
+    const path = key.split('.');
+    const exposedPath: string[] = [];
+    let current: any = entity;
+    let prop: EntityProperty | undefined;
+
+    for (const [index, segment] of path.entries()) {
+      const meta = current ? MetadataStorage.getMetadataFromDecorator(current) : undefined;
+      prop = meta?.properties[segment];
+      if (!prop) return undefined;
+
+      exposedPath.push(this.getExposedNameMap(current).toExposed.get(segment) || segment);
+
+      if (index < path.length - 1) {
+        if (![ReferenceKind.MANY_TO_ONE, ReferenceKind.ONE_TO_ONE, ReferenceKind.EMBEDDED].includes(prop.kind)) {
+          return undefined;
         }
-        where[key] = { ...(where[key] || {}), ...range };
+        current = this.getTargetClass(prop);
       }
     }
 
+    return prop ? { prop, path, exposedName: exposedPath.join('.') } : undefined;
+  }
+
+  /**
+   * Whether the entity defines a full-text index, not covering any of the `forbidden` fields
+   */
+  private static hasTextIndex<T>(entity: Type<T>, forbidden: string[]): boolean {
+    const meta = MetadataStorage.getMetadataFromDecorator(entity);
+    return !!meta?.indexes?.some(index => index.type === 'fulltext'
+      && ![index.properties ?? []].flat().some(property => forbidden.includes(String(property))));
+  }
+
+  private static checkReadable(key: string, exposedName: string, forbidden: string[]) {
+    if (forbidden.includes(key.split('.')[0])) {
+      throw new BadRequestException(`Filtering on ${exposedName} is not allowed`);
+    }
+  }
+
+  private static getTargetClass(prop: EntityProperty): Type<any> | undefined {
+    let target: any = typeof prop.entity === 'function' ? (prop.entity as () => any)() : prop.type;
+    if (typeof target === 'string') {
+      const name = target;
+      target = Object.values(MetadataStorage.getMetadata()).find(m => m.className === name)?.class;
+    }
+    return typeof target === 'function' ? target : undefined;
+  }
+
+  private static assignPath(where: Record<string, any>, path: string[], value: any): Record<string, any> {
+    let current = where;
+    for (const segment of path.slice(0, -1)) {
+      if (!current[segment] || typeof current[segment] !== 'object') {
+        current[segment] = {};
+      }
+      current = current[segment];
+    }
+    current[path[path.length - 1]] = value;
     return where;
   }
+
+  private static getValueType(prop: EntityProperty): FilterValueType {
+    const type: any = prop.type;
+    const typeName = typeof type === 'string' ? type.replace(/\[\]$/, '').toLowerCase() : undefined;
+
+    if (prop.enum) return 'enum';
+    if (typeName === 'objectid' || type === ObjectId || type === MongoObjectId) return 'objectId';
+    if (typeName === 'string' || type === String) return 'string';
+    if (typeName === 'number' || typeName === 'integer' || typeName === 'float' || typeName === 'double' || type === Number) return 'number';
+    if (typeName === 'boolean' || type === Boolean) return 'boolean';
+    if (type === Date || (typeName && typeName.includes('date'))) return 'date';
+    return 'unknown';
+  }
+
+  private static getEnumValues(prop: EntityProperty): any[] | undefined {
+    let items: any = prop.items;
+    if (typeof items === 'function') {
+      items = items();
+    }
+    if (!items) return undefined;
+
+    const values = Array.isArray(items) ? items : Object.values(items);
+    // Numeric TypeScript enums contain a reverse mapping, only keep the actual values
+    const numeric = values.filter(v => typeof v === 'number');
+    return numeric.length > 0 ? numeric : values;
+  }
+
+  private static coerceValue(value: any, prop: EntityProperty, valueType: FilterValueType, param: string): any {
+    if (Array.isArray(value) || (value !== null && typeof value === 'object')) {
+      throw new BadRequestException(`Invalid value for ${param}`);
+    }
+
+    const raw = String(value);
+
+    switch (valueType) {
+      case 'number': {
+        const number = Number(raw);
+        if (raw.trim() === '' || isNaN(number)) {
+          throw new BadRequestException(`Invalid value for ${param}, expected a number`);
+        }
+        return number;
+      }
+      case 'boolean': {
+        if (raw === 'true' || raw === '1') return true;
+        if (raw === 'false' || raw === '0') return false;
+        throw new BadRequestException(`Invalid value for ${param}, expected true or false`);
+      }
+      case 'date': {
+        const date = new Date(raw);
+        if (isNaN(date.getTime())) {
+          throw new BadRequestException(`Invalid value for ${param}, expected a date`);
+        }
+        return date;
+      }
+      case 'objectId': {
+        if (!MongoObjectId.isValid(raw)) {
+          throw new BadRequestException(`Invalid value for ${param}, expected an ObjectId`);
+        }
+        return new MongoObjectId(raw);
+      }
+      case 'enum': {
+        const values = this.getEnumValues(prop);
+        if (!values) return raw;
+        const match = values.find(v => String(v) === raw);
+        if (match === undefined) {
+          throw new BadRequestException(`Invalid value for ${param}, expected one of: ${values.join(', ')}`);
+        }
+        return match;
+      }
+      default:
+        return raw;
+    }
+  }
+
+  static getSwaggerSortParam<T>(entity: Type<T>, sortable: string[]): ApiQueryOptions {
+    const { toExposed } = this.getExposedNameMap(entity);
+    const fields = sortable.map(key => toExposed.get(key) || key);
+
+    return {
+      name: 'sort',
+      required: false,
+      type: 'string',
+      description: `Comma separated list of fields to sort by, prefix with - for descending order (e.g. -${fields[0] ?? 'field'}). Sortable fields: ${fields.join(', ')}`,
+    };
+  }
+
+  /**
+   * Parse the `sort` query parameter, sorting by a field of `forbidden` (the fields the caller may not read) is rejected
+   */
+  static parseQuerySort<T>(
+    sortParam: string | string[] | undefined,
+    sortable: string[],
+    entity: Type<T>,
+    forbidden: string[] = [],
+  ): Record<string, 'ASC' | 'DESC'> | undefined {
+    if (sortParam === undefined || sortParam === null || sortParam === '') return undefined;
+
+    const { toInternal } = this.getExposedNameMap(entity);
+    const orderBy: Record<string, 'ASC' | 'DESC'> = {};
+    const tokens = (Array.isArray(sortParam) ? sortParam.join(',') : String(sortParam)).split(',');
+
+    for (const rawToken of tokens) {
+      const token = rawToken.trim();
+      if (!token) continue;
+
+      const descending = token.startsWith('-');
+      const exposedName = descending || token.startsWith('+') ? token.substring(1) : token;
+      const key = toInternal.get(exposedName) || exposedName;
+
+      if (!sortable.includes(key) || forbidden.includes(key.split('.')[0])) {
+        throw new BadRequestException(`Sorting by '${exposedName}' is not allowed`);
+      }
+
+      orderBy[key] = descending ? 'DESC' : 'ASC';
+    }
+
+    return Object.keys(orderBy).length > 0 ? orderBy : undefined;
+  }
+
+  static getSwaggerFieldsParam<T>(entity: Type<T>): ApiQueryOptions {
+    const { toInternal } = this.getExposedNameMap(entity);
+
+    return {
+      name: 'fields',
+      required: false,
+      type: 'string',
+      description: `Comma separated list of fields to return. Available fields: ${[...toInternal.keys()].join(', ')}`,
+    };
+  }
+
+  /**
+   * Parse the `fields` query parameter into the requested exposed names and, when every field is a persisted property,
+   * the entity properties to select from the database
+   */
+  static parseFields<T>(fieldsParam: string | string[] | undefined, entity: Type<T>): { exposed: string[], select?: string[] } | undefined {
+    if (fieldsParam === undefined || fieldsParam === null || fieldsParam === '') return undefined;
+
+    const meta = MetadataStorage.getMetadataFromDecorator(entity);
+    const { toInternal } = this.getExposedNameMap(entity);
+    const exposed: string[] = [];
+    const select: string[] = [];
+    let selectable = true;
+
+    const tokens = (Array.isArray(fieldsParam) ? fieldsParam.join(',') : String(fieldsParam)).split(',');
+    for (const rawToken of tokens) {
+      const exposedName = rawToken.trim();
+      if (!exposedName || exposed.includes(exposedName)) continue;
+
+      const key = toInternal.get(exposedName);
+      if (!key) {
+        throw new BadRequestException(`Unknown field '${exposedName}'`);
+      }
+
+      exposed.push(exposedName);
+      const prop = meta?.properties[key];
+      if (!prop || prop.persist === false) {
+        selectable = false;
+      } else {
+        select.push(key);
+      }
+    }
+
+    if (exposed.length === 0) return undefined;
+    return { exposed, select: selectable ? select : undefined };
+  }
+
+  static getSwaggerIncludeParam<T>(entity: Type<T>, populate: string[]): ApiQueryOptions {
+    return {
+      name: 'include',
+      required: false,
+      enum: populate.map(path => this.getExposedPath(entity, path)),
+      isArray: true,
+      style: 'form',
+      explode: false,
+      description: 'Comma separated list of relations to include in the response',
+    };
+  }
+
+  /**
+   * Parse the `include` query parameter into the relation paths to populate, restricted to the allow-list
+   */
+  static parseInclude<T>(includeParam: string | string[] | undefined, populate: string[], entity: Type<T>): string[] | undefined {
+    if (includeParam === undefined || includeParam === null || includeParam === '') return undefined;
+
+    const allowed = new Map(populate.map(path => [this.getExposedPath(entity, path), path]));
+    const include: string[] = [];
+
+    const tokens = (Array.isArray(includeParam) ? includeParam.join(',') : String(includeParam)).split(',');
+    for (const rawToken of tokens) {
+      const token = rawToken.trim();
+      if (!token) continue;
+
+      const path = allowed.get(token);
+      if (!path) {
+        throw new BadRequestException(`Including '${token}' is not allowed`);
+      }
+      if (!include.includes(path)) {
+        include.push(path);
+      }
+    }
+
+    return include.length > 0 ? include : undefined;
+  }
+
+  /**
+   * Map a (dot separated) property path to the exposed names, following relations of any kind
+   */
+  private static getExposedPath<T>(entity: Type<T>, path: string): string {
+    let current: any = entity;
+
+    return path.split('.').map(segment => {
+      const exposedName = current ? this.getExposedNameMap(current).toExposed.get(segment) || segment : segment;
+      const prop = current ? MetadataStorage.getMetadataFromDecorator(current)?.properties[segment] : undefined;
+      current = prop && prop.kind !== ReferenceKind.SCALAR ? this.getTargetClass(prop) : undefined;
+      return exposedName;
+    }).join('.');
+  }
 }
@@ -0,0 +1,43 @@
+import { ForbiddenException } from '@nestjs/common';
+import { FilterQuery } from '@mikro-orm/core';
+import { SoftDeleteOptions } from '../interfaces/base-service-options.interface';
+import { CrudSoftDeleteOptions } from '../interfaces/crud-options.interface';
+import { QueryFilterUtil } from './query-filter.util';
+
+export class SoftDeleteUtil {
+  /**
+   * Restrict a filter to records that have not been soft-deleted
+   */
+  static excludeDeleted<T>(where: FilterQuery<T>, softDelete?: SoftDeleteOptions, withDeleted?: boolean): FilterQuery<T> {
+    if (!softDelete || withDeleted) {
+      return where;
+    }
+    return QueryFilterUtil.combineFilters(where, { [softDelete.field]: null }) as FilterQuery<T>;
+  }
+
+  /**
+   * Restrict a filter to records that have been soft-deleted
+   */
+  static onlyDeleted<T>(where: FilterQuery<T>, softDelete: SoftDeleteOptions): FilterQuery<T> {
+    return QueryFilterUtil.combineFilters(where, { [softDelete.field]: { $ne: null } }) as FilterQuery<T>;
+  }
+
+  /**
+   * Resolve the `withDeleted` query parameter, only allowing it for callers accepted by the `withDeleted` option
+   */
+  static async resolveWithDeleted(
+    softDelete: CrudSoftDeleteOptions | undefined,
+    request: any,
+    params: Record<string, string>,
+  ): Promise<boolean> {
+    if (!softDelete || request?.query?.withDeleted !== 'true') {
+      return false;
+    }
+
+    const allowed = await softDelete.withDeleted?.(request, params);
+    if (!allowed) {
+      throw new ForbiddenException('Not allowed to access deleted records');
+    }
+    return true;
+  }
+}
@@ -0,0 +1,45 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { FilterQuery } from '@mikro-orm/core';
+import { TenantOptions } from '../interfaces/base-service-options.interface';
+import { QueryFilterUtil } from './query-filter.util';
+
+const storage = new AsyncLocalStorage<{ tenant: unknown }>();
+
+export class TenantUtil {
+  /**
+   * Run the callback (and everything it awaits) as the given tenant, scoping the `BaseService` calls made inside it.
+   * Used by the generated routes for every request, and by tests or jobs to act as a tenant.
+   */
+  static run<R>(tenant: unknown, callback: () => R): R {
+    return storage.run({ tenant }, callback);
+  }
+
+  /**
+   * The tenant of the current context, undefined outside of `run`
+   */
+  static getTenant(): unknown {
+    return storage.getStore()?.tenant;
+  }
+
+  /**
+   * Restrict a filter to the records of the current tenant, unchanged when there is no tenant context
+   */
+  static scope<T>(where: FilterQuery<T>, tenant?: TenantOptions): FilterQuery<T> {
+    const current = this.getTenant();
+    if (!tenant || current === undefined) {
+      return where;
+    }
+    return QueryFilterUtil.combineFilters(where, { [tenant.field]: current }) as FilterQuery<T>;
+  }
+
+  /**
+   * Assign the current tenant to the data, so records can neither be created for nor moved to another tenant
+   */
+  static stamp<D extends object>(data: D, tenant?: TenantOptions): D {
+    const current = this.getTenant();
+    if (tenant && current !== undefined) {
+      (data as any)[tenant.field] = current;
+    }
+    return data;
+  }
+}
@@ -0,0 +1,102 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import { lookup, LookupAddress } from 'dns';
+import { BlockList, isIP, LookupFunction } from 'net';
+import { isFQDN } from 'class-validator';
+import { ObjectId } from 'mongodb';
+
+export const WEBHOOK_SIGNATURE_HEADER = 'x-webhook-signature';
+export const WEBHOOK_TIMESTAMP_HEADER = 'x-webhook-timestamp';
+
+/**
+ * Loopback, private, link-local (including the cloud metadata endpoints), shared, multicast and reserved ranges
+ */
+const PRIVATE_ADDRESSES = new BlockList();
+for (const [address, prefix] of [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16], ['172.16.0.0', 12],
+  ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 4], ['240.0.0.0', 4],
+] as const) {
+  PRIVATE_ADDRESSES.addSubnet(address, prefix, 'ipv4');
+}
+for (const [address, prefix] of [['::', 128], ['::1', 128], ['64:ff9b::', 96], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8]] as const) {
+  PRIVATE_ADDRESSES.addSubnet(address, prefix, 'ipv6');
+}
+
+export class WebhookUtil {
+  /**
+   * HMAC-SHA256 of `<timestamp>.<body>`, sent as `sha256=<hex>` in the `X-Webhook-Signature` header
+   */
+  static sign(secret: string, timestamp: number, body: string): string {
+    return `sha256=${createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`;
+  }
+
+  /**
+   * Check the signature of a received webhook, for receivers written with this library and tests
+   */
+  static verify(secret: string, signature: string, timestamp: number, body: string): boolean {
+    const expected = Buffer.from(this.sign(secret, timestamp, body));
+    const actual = Buffer.from(signature);
+    return expected.length === actual.length && timingSafeEqual(expected, actual);
+  }
+
+  /**
+   * The reason the URL may not receive webhooks, undefined when it may. Unless its host is in `allowedHosts`, a URL must
+   * use https and a public domain name: IP addresses, `localhost` and hosts without a TLD are rejected.
+   */
+  static checkUrl(url: string, allowedHosts: string[] = []): string | undefined {
+    let parsed: URL;
+    try {
+      parsed = new URL(url);
+    } catch (e) {
+      return 'Invalid webhook URL';
+    }
+    if (parsed.protocol !== 'https:' && parsed.protocol !== 'http:') {
+      return 'Webhook URLs must use http or https';
+    }
+
+    const hostname = parsed.hostname.toLowerCase();
+    if (allowedHosts.some(host => host.toLowerCase() === hostname)) return undefined;
+
+    if (parsed.protocol !== 'https:') {
+      return 'Webhook URLs must use https';
+    }
+    if (isIP(hostname.replace(/^\[|\]$/g, '')) || !isFQDN(hostname) || hostname.endsWith('.localhost')) {
+      return 'Webhook URLs must use a public domain name';
+    }
+    return undefined;
+  }
+
+  static isPrivateAddress(address: string): boolean {
+    const family = isIP(address);
+    return family === 0 || PRIVATE_ADDRESSES.check(address, family === 4 ? 'ipv4' : 'ipv6');
+  }
+
+  /**
+   * DNS lookup for outgoing requests that fails when the host resolves to a private address. The request connects to
+   * the checked address, so the host cannot resolve to another address in between.
+   */
+  static readonly publicLookup: LookupFunction = (hostname, options, callback) => {
+    lookup(hostname, { ...options, all: true }, (error, addresses) => {
+      if (error) return callback(error, '', 0);
+
+      const blocked = addresses.find(({ address }) => this.isPrivateAddress(address));
+      if (blocked) {
+        return callback(new Error(`${hostname} resolves to the private address ${blocked.address}`), '', 0);
+      }
+      if (options.all) {
+        (callback as (error: null, addresses: LookupAddress[]) => void)(null, addresses);
+      } else {
+        callback(null, addresses[0].address, addresses[0].family);
+      }
+    });
+  };
+
+  /**
+   * The tenant as stored on subscriptions, references and ObjectIds are reduced to their id
+   */
+  static serializeTenant(tenant: unknown): string | undefined {
+    if (tenant === undefined || tenant === null) return undefined;
+    if (tenant instanceof ObjectId) return tenant.toHexString();
+    if (typeof tenant === 'object' && 'id' in tenant) return String(tenant.id);
+    return String(tenant);
+  }
+}
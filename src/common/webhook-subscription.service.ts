@@ -0,0 +1,54 @@
+import { EntityData, EntityManager, RequiredEntityData } from '@mikro-orm/core';
+import { BadRequestException } from '@nestjs/common';
+import { BaseService } from './base.service';
+import { WebhookSubscriptionEntity } from './entities/webhook-subscription.entity';
+import { WebhookDeliveryEntity } from './entities/webhook-delivery.entity';
+import { BaseServiceOptions } from './interfaces/base-service-options.interface';
+import { CrudHookResult } from './interfaces/crud-hooks.interface';
+import { WebhookModuleOptions } from './interfaces/webhook.interface';
+import { EntityNameUtil } from './utils/entity-name.util';
+import { WebhookUtil } from './utils/webhook.util';
+
+export class WebhookSubscriptionService extends BaseService<WebhookSubscriptionEntity> {
+
+  constructor(em: EntityManager, options: BaseServiceOptions = {}, protected readonly webhookOptions: WebhookModuleOptions) {
+    super(em.getRepository(WebhookSubscriptionEntity), undefined, options);
+  }
+
+  /**
+   * The latest deliveries of the subscription, newest first
+   */
+  async findDeliveries(subscription: WebhookSubscriptionEntity, limit = 50): Promise<WebhookDeliveryEntity[]> {
+    return this.repository.getEntityManager().find(WebhookDeliveryEntity, { subscription: subscription.id }, {
+      orderBy: { createdAt: 'DESC' },
+      limit,
+    });
+  }
+
+  protected beforeCreate(data: RequiredEntityData<WebhookSubscriptionEntity>): CrudHookResult {
+    this.checkUrl(data.url);
+    this.checkEntity(data.entity);
+  }
+
+  protected beforeUpdate(entity: WebhookSubscriptionEntity, data: EntityData<WebhookSubscriptionEntity>): CrudHookResult {
+    if (data.url !== undefined) {
+      this.checkUrl(data.url);
+    }
+    if (data.entity !== undefined) {
+      this.checkEntity(data.entity);
+    }
+  }
+
+  private checkEntity(slug: unknown) {
+    if (!this.webhookOptions.entities.some(entity => EntityNameUtil.classToSlug(entity) === slug)) {
+      throw new BadRequestException(`Webhooks are not available for ${slug}`);
+    }
+  }
+
+  private checkUrl(url: unknown) {
+    const reason = WebhookUtil.checkUrl(String(url), this.webhookOptions.allowedHosts);
+    if (reason) {
+      throw new BadRequestException(reason);
+    }
+  }
+}
@@ -0,0 +1,248 @@
+import { EntityManager, FilterQuery } from '@mikro-orm/core';
+import { Type } from '@nestjs/common';
+import { ObjectId } from '@mikro-orm/mongodb';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { instanceToPlain } from 'class-transformer';
+import http from 'http';
+import https from 'https';
+import { LookupFunction } from 'net';
+import { CRUDEvent, CRUDEventType } from './base.event';
+import { WebhookDeliveryEntity } from './entities/webhook-delivery.entity';
+import { WebhookSubscriptionEntity } from './entities/webhook-subscription.entity';
+import { WebhookAttempt, WebhookModuleOptions, WebhookPayload } from './interfaces/webhook.interface';
+import { Poller } from './poller';
+import { FieldAccessUtil } from './utils/field-access.util';
+import { EntityNameUtil } from './utils/entity-name.util';
+import { QueryFilterUtil } from './utils/query-filter.util';
+import { WebhookUtil, WEBHOOK_SIGNATURE_HEADER, WEBHOOK_TIMESTAMP_HEADER } from './utils/webhook.util';
+
+const CRUD_EVENT_PATTERN = /^(.+)\.(created|updated|deleted|restored)$/;
+
+/**
+ * Turns the CRUD events emitted by services (or delivered by the OutboxRelay) into webhook deliveries and posts them
+ * to the subscribed URLs. Failed deliveries are retried with backoff, every attempt is recorded on the delivery.
+ * Deliveries are claimed with a lease like outbox messages, so several instances can run a dispatcher.
+ */
+export class WebhookDispatcher extends Poller {
+
+  protected readonly subject = 'the webhook deliveries';
+  /**
+   * The failure is logged and still returned, so the `emitAsync` of the OutboxRelay fails and retries the message
+   */
+  private readonly listener = (event: string | string[], value: unknown) => {
+    if (typeof event !== 'string' || !(value instanceof CRUDEvent)) return;
+    const enqueued = this.enqueue(event, value);
+    enqueued.catch(error => {
+      this.logger.error(`Failed to enqueue webhooks for ${event}: ${error instanceof Error ? error.message : error}`);
+    });
+    return enqueued;
+  };
+
+  constructor(
+    protected readonly em: EntityManager,
+    protected readonly eventEmitter: EventEmitter2,
+    protected readonly options: WebhookModuleOptions,
+  ) {
+    super();
+  }
+
+  protected get batchSize() {
+    return this.options.batchSize ?? 50;
+  }
+
+  protected get interval() {
+    return this.options.interval ?? 1000;
+  }
+
+  onModuleInit() {
+    this.eventEmitter.onAny(this.listener);
+    super.onModuleInit();
+  }
+
+  async onModuleDestroy() {
+    this.eventEmitter.offAny(this.listener);
+    await super.onModuleDestroy();
+  }
+
+  /**
+   * Create a pending delivery of the event for every matching subscription and return the number of deliveries
+   */
+  async enqueue(event: string, value: CRUDEvent<any>): Promise<number> {
+    const match = CRUD_EVENT_PATTERN.exec(event);
+    if (!match) return 0;
+    const [, slug, type] = match as unknown as [string, string, CRUDEventType];
+    const entityClass = this.getEntityClass(slug);
+    if (!entityClass) return 0;
+
+    const where: FilterQuery<WebhookSubscriptionEntity> = { entity: slug, events: type, active: true };
+    if (this.options.tenant) {
+      const tenant = WebhookUtil.serializeTenant(value.entity?.[this.options.tenant.field]);
+      if (tenant === undefined) return 0;
+      where.tenant = tenant;
+    }
+
+    const em = this.em.fork();
+    const subscriptions = await em.find(WebhookSubscriptionEntity, where);
+    if (subscriptions.length === 0) return 0;
+
+    const entity = this.rebuildEntity(entityClass, value.entity);
+    for (const subscription of subscriptions) {
+      const roles = await this.options.roles?.(subscription) ?? [];
+      const payload = this.createPayload(event, slug, type, value, entityClass, entity, roles);
+      em.persist(em.create(WebhookDeliveryEntity, { subscription: subscription.id, event, payload }));
+    }
+    await em.flush();
+    return subscriptions.length;
+  }
+
+  /**
+   * Attempt the next batch of available deliveries and return the number of deliveries handled
+   */
+  async processBatch(): Promise<number> {
+    const em = this.em.fork();
+    const maxAttempts = this.options.maxAttempts ?? 8;
+    const lease = this.options.lease ?? 30000;
+    const backoff = this.options.backoff ?? (attempts => Math.min(1000 * 4 ** attempts, 3600000));
+
+    const deliveries = await em.find(WebhookDeliveryEntity, {
+      status: 'pending',
+      availableAt: { $lte: new Date() },
+    }, { orderBy: { createdAt: 'ASC' }, limit: this.batchSize });
+
+    for (const delivery of deliveries) {
+      // Another dispatcher may have claimed the delivery since it was read
+      const claimed = await em.nativeUpdate(WebhookDeliveryEntity, { _id: delivery._id, availableAt: delivery.availableAt }, {
+        availableAt: new Date(Date.now() + lease),
+      });
+      if (claimed === 0) continue;
+
+      const subscription = await em.findOne(WebhookSubscriptionEntity, { _id: new ObjectId(delivery.subscription) });
+      const attempt: WebhookAttempt = subscription?.active
+        ? await this.send(subscription, delivery)
+        : { attemptedAt: new Date(), error: 'The subscription has been removed or deactivated', duration: 0 };
+
+      const attempts = [...delivery.attempts, attempt];
+      const delivered = attempt.statusCode !== undefined && attempt.statusCode >= 200 && attempt.statusCode < 300;
+
+      if (delivered) {
+        await em.nativeUpdate(WebhookDeliveryEntity, { _id: delivery._id }, { attempts, status: 'delivered', deliveredAt: new Date() });
+      } else if (!subscription?.active || attempts.length >= maxAttempts) {
+        await em.nativeUpdate(WebhookDeliveryEntity, { _id: delivery._id }, { attempts, status: 'failed' });
+      } else {
+        await em.nativeUpdate(WebhookDeliveryEntity, { _id: delivery._id }, {
+          attempts,
+          availableAt: new Date(Date.now() + backoff(attempts.length)),
+        });
+      }
+    }
+
+    return deliveries.length;
+  }
+
+  /**
+   * The entity registered for webhooks with the slug, undefined when its events cannot be subscribed to
+   */
+  private getEntityClass(slug: string): Type<any> | undefined {
+    return this.options.entities.find(entity => EntityNameUtil.classToSlug(entity) === slug);
+  }
+
+  /**
+   * The record is serialized with `instanceToPlain` like the export route, and the fields the roles may not read are
+   * removed like the read routes do. Changes of properties left out of it (e.g. `@Exclude()`d secrets) are dropped.
+   */
+  private createPayload(
+    event: string,
+    slug: string,
+    type: CRUDEventType,
+    value: CRUDEvent<any>,
+    entityClass: Type<any>,
+    entity: any,
+    roles: string[],
+  ): WebhookPayload {
+    const data = FieldAccessUtil.filterReadablePlain(entityClass, instanceToPlain(entity), roles);
+    const { toExposed } = QueryFilterUtil.getExposedNameMap(entityClass);
+    const changes = value.changes
+      .map(change => ({ ...change, field: toExposed.get(change.field) ?? change.field }))
+      .filter(change => change.field in data);
+
+    return {
+      event,
+      entity: slug,
+      type,
+      data,
+      changes,
+      actor: value.actor,
+      correlationId: value.correlationId,
+      source: value.source,
+      occurredAt: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * Rebuild the entity instance when an event carries the serialized record, e.g. from a custom outbox transport,
+   * so the exclusions and exposed names of the entity class apply
+   */
+  private rebuildEntity(entityClass: Type<any>, entity: any): any {
+    if (!entity || Object.getPrototypeOf(entity) !== Object.prototype) return entity;
+    return this.em.fork().merge(entityClass, entity, { convertCustomTypes: true });
+  }
+
+  /**
+   * POST the payload signed with the secret of the subscription, any 2xx response counts as delivered.
+   * The URL is checked again on every attempt, and redirects are not followed so they cannot lead to internal hosts.
+   */
+  private async send(subscription: WebhookSubscriptionEntity, delivery: WebhookDeliveryEntity): Promise<WebhookAttempt> {
+    const body = JSON.stringify(delivery.payload);
+    const timestamp = Math.floor(Date.now() / 1000);
+    const attemptedAt = new Date();
+
+    try {
+      const reason = WebhookUtil.checkUrl(subscription.url, this.options.allowedHosts);
+      if (reason) {
+        throw new Error(reason);
+      }
+
+      const url = new URL(subscription.url);
+      const allowed = this.options.allowedHosts?.some(host => host.toLowerCase() === url.hostname.toLowerCase());
+      const response = await this.post(url, {
+        'content-type': 'application/json',
+        'content-length': String(Buffer.byteLength(body)),
+        'x-webhook-id': delivery.id,
+        'x-webhook-event': delivery.event,
+        [WEBHOOK_TIMESTAMP_HEADER]: String(timestamp),
+        [WEBHOOK_SIGNATURE_HEADER]: WebhookUtil.sign(subscription.secret, timestamp, body),
+      }, body, allowed ? undefined : WebhookUtil.publicLookup);
+      const ok = response.status >= 200 && response.status < 300;
+
+      return {
+        attemptedAt,
+        statusCode: response.status,
+        error: ok ? undefined : `Responded with ${response.status} ${response.statusText}`,
+        duration: Date.now() - attemptedAt.getTime(),
+      };
+    } catch (e) {
+      return {
+        attemptedAt,
+        error: e instanceof Error ? e.message : String(e),
+        duration: Date.now() - attemptedAt.getTime(),
+      };
+    }
+  }
+
+  private post(url: URL, headers: Record<string, string>, body: string, lookup?: LookupFunction): Promise<{ status: number, statusText: string }> {
+    return new Promise((resolve, reject) => {
+      const request = (url.protocol === 'https:' ? https : http).request(url, {
+        method: 'POST',
+        headers,
+        lookup,
+        signal: AbortSignal.timeout(this.options.timeout ?? 10000),
+      }, response => {
+        // The response body is not used, drain it so the socket is released
+        response.resume();
+        resolve({ status: response.statusCode ?? 0, statusText: response.statusMessage ?? '' });
+      });
+      request.on('error', reject);
+      request.end(body);
+    });
+  }
+}
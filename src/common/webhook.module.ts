@@ -0,0 +1,87 @@
+import { applyDecorators, Controller, DynamicModule, Get, Module, NotFoundException, Param, Type } from '@nestjs/common';
+import { EntityManager } from '@mikro-orm/core';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { ApiNotFoundResponse, ApiResponse } from '@nestjs/swagger';
+import { Crud, ICrudController } from './decorators/crud.decorator';
+import { CreateWebhookSubscriptionDto, UpdateWebhookSubscriptionDto, WebhookDeliveryDto } from './dto/webhook.dto';
+import { WebhookSubscriptionEntity } from './entities/webhook-subscription.entity';
+import { WebhookModuleOptions } from './interfaces/webhook.interface';
+import { WebhookUtil } from './utils/webhook.util';
+import { WebhookDispatcher } from './webhook.dispatcher';
+import { WebhookSubscriptionService } from './webhook-subscription.service';
+
+/**
+ * The subscription management controller, with a `GET /:id/deliveries` route listing the latest deliveries
+ */
+export function createWebhookController(options: WebhookModuleOptions): Type<ICrudController<WebhookSubscriptionEntity>> {
+  const tenant = options.tenant;
+
+  @Crud<WebhookSubscriptionEntity, CreateWebhookSubscriptionDto, UpdateWebhookSubscriptionDto>({
+    tag: 'webhooks',
+    entity: WebhookSubscriptionEntity,
+    createDto: CreateWebhookSubscriptionDto,
+    updateDto: UpdateWebhookSubscriptionDto,
+    decorators: options.decorators,
+    tenant: tenant && {
+      field: 'tenant',
+      resolve: async request => WebhookUtil.serializeTenant(await tenant.resolve(request)),
+    },
+    operations: {
+      query: {
+        sort: [{ field: 'createdAt', order: 'DESC' }],
+        filter: { entity: true, active: true },
+      },
+      delete: true,
+    },
+  })
+  @Controller(options.path ?? 'webhooks')
+  class WebhookSubscriptionController implements ICrudController<WebhookSubscriptionEntity> {
+    constructor(readonly service: WebhookSubscriptionService) {}
+
+    @Get(':id/deliveries')
+    @ApiNotFoundResponse()
+    @ApiResponse({
+      status: 200,
+      type: [WebhookDeliveryDto],
+    })
+    @applyDecorators(...options.decorators ?? [])
+    async deliveries(@Param('id') id: string) {
+      const subscription = await this.service.findOne({ id });
+      if (!subscription) {
+        throw new NotFoundException('Webhook subscription not found');
+      }
+      return this.service.findDeliveries(subscription);
+    }
+  }
+
+  return WebhookSubscriptionController;
+}
+
+/**
+ * Outgoing webhooks for the CRUD events of the services of the `entities` option. Requires the MikroORM and EventEmitter
+ * modules, and the `WebhookSubscriptionEntity` and `WebhookDeliveryEntity` in the entities of the MikroORM configuration.
+ */
+@Module({})
+export class WebhookModule {
+  static forRoot(options: WebhookModuleOptions): DynamicModule {
+    return {
+      module: WebhookModule,
+      controllers: [createWebhookController(options)],
+      providers: [
+        {
+          provide: WebhookSubscriptionService,
+          useFactory: (em: EntityManager) => new WebhookSubscriptionService(em, {
+            tenant: options.tenant && { field: 'tenant' },
+          }, options),
+          inject: [EntityManager],
+        },
+        {
+          provide: WebhookDispatcher,
+          useFactory: (em: EntityManager, eventEmitter: EventEmitter2) => new WebhookDispatcher(em, eventEmitter, options),
+          inject: [EntityManager, EventEmitter2],
+        },
+      ],
+      exports: [WebhookSubscriptionService, WebhookDispatcher],
+    };
+  }
+}
@@ -2,10 +2,47 @@ export * from './common/decorators/crud.decorator';
 export * from './common/decorators/embedded.decorator';
 export * from './common/decorators/readonly.decorator';
 export * from './common/decorators/inject-entity.decorator';
+export * from './common/decorators/field-access.decorator';
+export * from './common/decorators/on-field-change.decorator';
 export * from './common/base.service';
 export * from './common/dto/pagination.dto';
+export * from './common/dto/cursor-pagination.dto';
 export * from './common/utils/entity-name.util';
 export * from './common/utils/query-filter.util';
 export * from './common/base.event';
 export * from './common/base-related.service';
 export * from './common/constants';
+export * from './common/interfaces/crud-options.interface';
+export * from './common/interfaces/base-service-options.interface';
+export * from './common/utils/soft-delete.util';
+export * from './common/interfaces/crud-hooks.interface';
+export * from './common/interfaces/import-report.interface';
+export * from './common/dto/import-report.dto';
+export * from './common/utils/field-access.util';
+export * from './common/utils/etag.util';
+export * from './common/utils/patch.util';
+export * from './common/interfaces/json-patch.interface';
+export * from './common/dto/bulk-result.dto';
+export * from './common/utils/tenant.util';
+export * from './common/decorators/tenant.decorator';
+export * from './common/interfaces/audit.interface';
+export * from './common/utils/audit.util';
+export * from './common/entities/audit-entry.entity';
+export * from './common/audit.store';
+export * from './common/dto/audit-entry.dto';
+export * from './common/interfaces/outbox.interface';
+export * from './common/entities/outbox-message.entity';
+export * from './common/poller';
+export * from './common/outbox.relay';
+export * from './common/outbox.module';
+export * from './common/interfaces/webhook.interface';
+export * from './common/utils/webhook.util';
+export * from './common/entities/webhook-subscription.entity';
+export * from './common/entities/webhook-delivery.entity';
+export * from './common/dto/webhook.dto';
+export * from './common/webhook-subscription.service';
+export * from './common/webhook.dispatcher';
+export * from './common/webhook.module';
+export * from './common/utils/nested.util';
+export * from './common/decorators/nested.decorator';
+export * from './common/dto/relation-ids.dto';